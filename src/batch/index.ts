@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import { findEnclosingMember } from '../context';
+import { deserializeRange, SerializedRange, serializeRange } from '../history';
+import { loadIgnoreMatcher } from '../redaction/ignore';
+
+export type BatchSiteKind = 'notImplemented' | 'todo';
+
+export type BatchSiteStatus = 'pending' | 'generating' | 'proposed' | 'accepted' | 'rejected' | 'failed';
+
+export interface BatchSite {
+  id: string;
+  fileUri: string;
+  range: SerializedRange;
+  kind: BatchSiteKind;
+  label: string;
+  instruction?: string;
+  originalText: string;
+  status: BatchSiteStatus;
+  code?: string;
+  error?: string;
+}
+
+export interface BatchState {
+  startedAt: number;
+  scope?: string;
+  sites: BatchSite[];
+}
+
+export interface AppliedSite {
+  site: BatchSite;
+  document: vscode.TextDocument;
+  originalRange: vscode.Range;
+  insertedRange: vscode.Range;
+}
+
+const STORAGE_KEY = 'deepseekCSharp.batch';
+const EXCLUDE = '**/{bin,obj,node_modules}/**';
+const MAX_BATCH_FILES = 2000;
+const NOT_IMPLEMENTED_PATTERN = /throw\s+new\s+(?:System\.)?NotImplementedException\s*\(/g;
+const TODO_PATTERN = /^[ \t]*\/\/[ \t]*TODO:[ \t]*deepseek\b[: \t]*(.*)$/gim;
+
+export class BatchStore implements vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  get(): BatchState | undefined {
+    return this.state.get<BatchState>(STORAGE_KEY);
+  }
+
+  async save(batch: BatchState | undefined): Promise<void> {
+    await this.state.update(STORAGE_KEY, batch);
+    this.changeEmitter.fire();
+  }
+
+  // Concurrent generations report back at the same time, so updates are applied one after another.
+  updateSite(id: string, changes: Partial<Omit<BatchSite, 'id'>>): Promise<void> {
+    this.pending = this.pending.catch(() => undefined).then(async () => {
+      const batch = this.get();
+      if (batch) {
+        await this.save({
+          ...batch,
+          sites: batch.sites.map((site) => (site.id === id ? { ...site, ...changes } : site))
+        });
+      }
+    });
+    return this.pending;
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+export async function scanBatchSites(scope?: vscode.Uri): Promise<BatchSite[]> {
+  const pattern = scope ? new vscode.RelativePattern(scope, '**/*.cs') : '**/*.cs';
+  const sites: BatchSite[] = [];
+  const ignored = await loadIgnoreMatcher();
+  for (const uri of await vscode.workspace.findFiles(pattern, EXCLUDE, MAX_BATCH_FILES)) {
+    if (ignored(uri)) {
+      continue;
+    }
+    const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    if (text.search(NOT_IMPLEMENTED_PATTERN) < 0 && text.search(TODO_PATTERN) < 0) {
+      continue;
+    }
+    sites.push(...(await scanDocument(await vscode.workspace.openTextDocument(uri))));
+  }
+  return sites;
+}
+
+// Sites are replaced independently, so the edits in one file must not overlap.
+async function scanDocument(document: vscode.TextDocument): Promise<BatchSite[]> {
+  const text = document.getText();
+  const sites: BatchSite[] = [];
+  const add = (range: vscode.Range, kind: BatchSiteKind, label: string, instruction?: string) => {
+    if (sites.some((site) => deserializeRange(site.range).intersection(range))) {
+      return;
+    }
+    sites.push({
+      id: `${document.uri.toString()}#${range.start.line}`,
+      fileUri: document.uri.toString(),
+      range: serializeRange(range),
+      kind,
+      label,
+      instruction,
+      originalText: document.getText(range),
+      status: 'pending'
+    });
+  };
+
+  for (const match of text.matchAll(NOT_IMPLEMENTED_PATTERN)) {
+    const member = await findEnclosingMember(document, document.positionAt(match.index ?? 0));
+    if (member) {
+      add(member.range, 'notImplemented', member.name);
+    }
+  }
+  for (const match of text.matchAll(TODO_PATTERN)) {
+    const line = document.lineAt(document.positionAt(match.index ?? 0).line);
+    const instruction = match[1].trim();
+    const start = new vscode.Position(line.lineNumber, line.firstNonWhitespaceCharacterIndex);
+    add(new vscode.Range(start, line.range.end), 'todo', instruction || 'TODO', instruction);
+  }
+  return sites.sort((a, b) => a.range.startLine - b.range.startLine);
+}
+
+// Applies every accepted site as one edit. Sites whose code changed since the scan are skipped.
+export async function applyAcceptedSites(
+  sites: BatchSite[]
+): Promise<{ applied: AppliedSite[]; stale: BatchSite[] }> {
+  const edit = new vscode.WorkspaceEdit();
+  const stale: BatchSite[] = [];
+  const planned: Array<{ site: BatchSite; document: vscode.TextDocument; range: vscode.Range }> = [];
+
+  for (const site of sites.filter((entry) => entry.status === 'accepted' && entry.code !== undefined)) {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(site.fileUri));
+    const range = document.validateRange(deserializeRange(site.range));
+    if (document.getText(range) !== site.originalText) {
+      stale.push(site);
+      continue;
+    }
+    edit.replace(document.uri, range, site.code ?? '');
+    planned.push({ site, document, range });
+  }
+  if (planned.length === 0 || !(await vscode.workspace.applyEdit(edit))) {
+    return { applied: [], stale };
+  }
+
+  // Sites never share a line, so earlier replacements in a file only shift the later ones by whole lines.
+  const applied: AppliedSite[] = [];
+  const byFile = new Map<string, typeof planned>();
+  for (const entry of planned) {
+    byFile.set(entry.site.fileUri, [...(byFile.get(entry.site.fileUri) ?? []), entry]);
+  }
+  for (const entries of byFile.values()) {
+    let shift = 0;
+    for (const entry of entries.sort((a, b) => a.range.start.line - b.range.start.line)) {
+      const lines = (entry.site.code ?? '').split(/\r?\n/);
+      const start = entry.range.start.translate(shift);
+      const end =
+        lines.length === 1
+          ? start.translate(0, lines[0].length)
+          : new vscode.Position(start.line + lines.length - 1, lines[lines.length - 1].length);
+      applied.push({
+        site: entry.site,
+        document: entry.document,
+        originalRange: entry.range,
+        insertedRange: new vscode.Range(start, end)
+      });
+      shift += lines.length - 1 - (entry.range.end.line - entry.range.start.line);
+    }
+    await entries[0].document.save();
+  }
+  return { applied, stale };
+}
@@ -0,0 +1,103 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { runShellCommand } from '../util/process';
+
+export const BUILD_DIAGNOSTIC_SOURCE = 'DeepSeek build';
+
+export interface CompilerMessage {
+  file: string;
+  line: number;
+  column: number;
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+  project?: string;
+}
+
+export interface BuildResult {
+  success: boolean;
+  project: string;
+  errors: CompilerMessage[];
+  warnings: CompilerMessage[];
+}
+
+export interface BuildOptions {
+  token?: vscode.CancellationToken;
+  timeoutMs?: number;
+}
+
+const COMPILER_MESSAGE_PATTERN =
+  /^\s*(.+?)\((\d+),(\d+)(?:,\d+,\d+)?\)\s*:\s*(error|warning)\s+([A-Z]+\d+)\s*:\s*(.*?)(?:\s+\[([^\]]+)\])?\s*$/;
+
+export async function runBuild(
+  command: string,
+  project: string,
+  output: vscode.OutputChannel,
+  options: BuildOptions = {}
+): Promise<BuildResult> {
+  const cwd = path.dirname(project);
+  const { exitCode, output: buildOutput } = await runShellCommand(`${command} "${project}"`, cwd, output, {
+    ...options,
+    label: 'Build'
+  });
+  const messages = parseCompilerMessages(buildOutput, cwd);
+  const errors = messages.filter((message) => message.severity === 'error');
+  return {
+    success: exitCode === 0 && errors.length === 0,
+    project,
+    errors,
+    warnings: messages.filter((message) => message.severity === 'warning')
+  };
+}
+
+export function parseCompilerMessages(text: string, cwd: string): CompilerMessage[] {
+  const seen = new Set<string>();
+  const messages: CompilerMessage[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(COMPILER_MESSAGE_PATTERN);
+    if (!match) {
+      continue;
+    }
+    // MSBuild repeats every error in its closing summary.
+    const key = match.slice(1, 7).join('|');
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    messages.push({
+      file: path.resolve(match[7] ? path.dirname(match[7]) : cwd, match[1]),
+      line: Number(match[2]),
+      column: Number(match[3]),
+      severity: match[4] as CompilerMessage['severity'],
+      code: match[5],
+      message: match[6],
+      project: match[7]
+    });
+  }
+  return messages;
+}
+
+export function publishBuildDiagnostics(collection: vscode.DiagnosticCollection, result: BuildResult | undefined): void {
+  collection.clear();
+  const byFile = new Map<string, vscode.Diagnostic[]>();
+  for (const error of result?.errors ?? []) {
+    const position = new vscode.Position(Math.max(0, error.line - 1), Math.max(0, error.column - 1));
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(position, position),
+      error.message,
+      vscode.DiagnosticSeverity.Error
+    );
+    diagnostic.source = BUILD_DIAGNOSTIC_SOURCE;
+    diagnostic.code = error.code;
+    byFile.set(error.file, [...(byFile.get(error.file) ?? []), diagnostic]);
+  }
+  for (const [file, entries] of byFile) {
+    collection.set(vscode.Uri.file(file), entries);
+  }
+}
+
+export function formatCompilerMessage(message: CompilerMessage): string {
+  return `${vscode.workspace.asRelativePath(message.file)}(${message.line},${message.column}): ${message.severity} ${
+    message.code
+  }: ${message.message}`;
+}
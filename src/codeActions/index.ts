@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { findEnclosingMember } from '../context';
+
+export const IMPLEMENT_METHOD_COMMAND = 'deepseekCSharp.implementMethod';
+export const GENERATE_TESTS_COMMAND = 'deepseekCSharp.generateTests';
+export const EXPLAIN_CODE_COMMAND = 'deepseekCSharp.explainCode';
+export const FIX_FAILING_TEST_COMMAND = 'deepseekCSharp.fixFailingTest';
+export const TEST_DIAGNOSTIC_SOURCE = 'DeepSeek tests';
+
+const NOT_IMPLEMENTED_PATTERN = /throw\s+new\s+(System\.)?NotImplementedException\s*\(/;
+
+export class AssistCodeActionProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix, vscode.CodeActionKind.RefactorRewrite];
+
+  async provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): Promise<vscode.CodeAction[]> {
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics.filter((entry) => entry.source === TEST_DIAGNOSTIC_SOURCE)) {
+      const action = new vscode.CodeAction('DeepSeek: Fix this failing test', vscode.CodeActionKind.QuickFix);
+      action.diagnostics = [diagnostic];
+      action.command = {
+        command: FIX_FAILING_TEST_COMMAND,
+        title: action.title,
+        arguments: [document.uri, diagnostic]
+      };
+      actions.push(action);
+    }
+
+    const member = await findEnclosingMember(document, range.start);
+    if (!member) {
+      return actions;
+    }
+
+    if (NOT_IMPLEMENTED_PATTERN.test(document.getText(member.range))) {
+      const action = new vscode.CodeAction('DeepSeek: Implement this method', vscode.CodeActionKind.QuickFix);
+      action.isPreferred = true;
+      action.command = { command: IMPLEMENT_METHOD_COMMAND, title: action.title, arguments: [document.uri, range.start] };
+      actions.push(action);
+    }
+
+    const generateTests = new vscode.CodeAction(
+      'DeepSeek: Generate unit tests for this method',
+      vscode.CodeActionKind.RefactorRewrite
+    );
+    generateTests.command = {
+      command: GENERATE_TESTS_COMMAND,
+      title: generateTests.title,
+      arguments: [document.uri, range.start]
+    };
+
+    const explain = new vscode.CodeAction('DeepSeek: Explain this code', vscode.CodeActionKind.RefactorRewrite);
+    explain.command = { command: EXPLAIN_CODE_COMMAND, title: explain.title, arguments: [document.uri, range] };
+
+    actions.push(generateTests, explain);
+    return actions;
+  }
+}
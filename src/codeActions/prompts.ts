@@ -0,0 +1,132 @@
+import { TestFramework } from '../context/tests';
+
+export const IMPLEMENT_TEMPLATE = `You are a helpful, precise C# coding assistant. The member shown as "Enclosing member" currently throws NotImplementedException. Implement it so that it satisfies the related unit tests.
+
+Context:
+<CODE_BLOCK_CONTENT>
+
+Tests Summary:
+<TEST_SUMMARY>
+
+Constraints:
+- Return the complete member: attributes, signature and body
+- Keep the existing signature
+- Only return code, no explanation or comments
+- Follow existing naming conventions and styling in the file
+- Do not introduce secrets or hard-coded credentials
+`;
+
+export const GENERATE_TESTS_TEMPLATE = `You are a helpful, precise C# testing assistant. Write <FRAMEWORK> unit tests for the member below.
+
+Member under test:
+<ENCLOSING_MEMBER>
+
+File outline:
+<FILE_OUTLINE>
+
+Related types:
+<RELATED_TYPES>
+
+Existing related tests:
+<TEST_SUMMARY>
+
+<OUTPUT_FORMAT>
+
+Constraints:
+- Use <FRAMEWORK> conventions: <FRAMEWORK_HINT>
+- Cover normal cases, edge cases and invalid input
+- Do not duplicate existing tests
+- Only return code, no explanation
+- Do not introduce secrets or hard-coded credentials
+`;
+
+export const EXPLAIN_TEMPLATE = `You are a C# expert. Explain what the following code does for a developer reading it for the first time. Describe its purpose, inputs and outputs, side effects, and notable risks or edge cases. Answer in concise Markdown.
+
+Code:
+<SELECTION>
+
+File outline:
+<FILE_OUTLINE>
+
+Related types:
+<RELATED_TYPES>
+`;
+
+export const FIX_TEST_TEMPLATE = `You are a helpful, precise C# coding assistant. A unit test fails at the member shown below. Fix the member so that the failing test passes without breaking the other tests.
+
+Failing test:
+<FAILURE>
+
+Member to fix:
+<ENCLOSING_MEMBER>
+
+File outline:
+<FILE_OUTLINE>
+
+Related types:
+<RELATED_TYPES>
+
+Tests Summary:
+<TEST_SUMMARY>
+
+Constraints:
+- Return the complete corrected member: attributes, signature and body
+- Only return code, no explanation or comments
+- Follow existing naming conventions and styling in the file
+- Do not introduce secrets or hard-coded credentials
+`;
+
+export const TODO_TEMPLATE = `You are a helpful, precise C# coding assistant. The line shown as "Selection" is a "// TODO: deepseek" marker. Write the code that replaces it and carries out this instruction: <INSTRUCTION>
+
+Context:
+<CODE_BLOCK_CONTENT>
+
+Tests Summary:
+<TEST_SUMMARY>
+
+Constraints:
+- Return only the code that replaces the marker line
+- Only return code, no explanation or comments
+- Follow existing naming conventions and styling in the file
+- Do not introduce secrets or hard-coded credentials
+`;
+
+export const STRUCTURED_EDITS_TEMPLATE = `Response format:
+Ignore any instruction above to return only code. Respond with a single JSON object and nothing else:
+{"edits": [...]}
+
+Each edit is one of:
+- {"op": "replace", "path": "<file>", "range": {"startLine": 1, "endLine": 3}, "text": "..."} replaces whole lines (1-based, inclusive)
+- {"op": "replace", "path": "<file>", "anchor": "<existing text>", "text": "..."} replaces text that occurs exactly once in the file
+- {"op": "insertBefore" or "insertAfter", "path": "<file>", "anchor": "<existing text>", "text": "..."} adds lines before or after the lines containing the anchor
+- {"op": "create", "path": "<new file>", "text": "<complete file content>"}
+
+Paths are relative to the workspace folder. The code to change is in <TARGET_FILE> at <TARGET_LOCATION>.
+Use separate edits for new using directives, tests in other files or new class files.
+`;
+
+const FRAMEWORK_HINTS: Record<TestFramework, string> = {
+  xunit: '[Fact] and [Theory] with [InlineData], Assert.Equal / Assert.Throws',
+  nunit: '[TestFixture], [Test] and [TestCase], Assert.That with constraints',
+  mstest: '[TestClass], [TestMethod] and [DataTestMethod] with [DataRow], Assert.AreEqual / Assert.ThrowsException'
+};
+
+const FRAMEWORK_NAMES: Record<TestFramework, string> = {
+  xunit: 'xUnit',
+  nunit: 'NUnit',
+  mstest: 'MSTest'
+};
+
+export function testFrameworkValues(
+  framework: TestFramework,
+  testClass: string,
+  target: { append: true } | { append: false; namespace: string }
+): Record<string, string> {
+  return {
+    FRAMEWORK: FRAMEWORK_NAMES[framework],
+    FRAMEWORK_HINT: FRAMEWORK_HINTS[framework],
+    OUTPUT_FORMAT: target.append
+      ? `Return only the new test methods to add to the existing test class ${testClass}.`
+      : `Return a complete C# file with the using directives, namespace ${target.namespace} and the test class ${testClass}.`
+  };
+}
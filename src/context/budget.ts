@@ -0,0 +1,76 @@
+import { TrimStep } from '../llm/tokens';
+import { CodeContext } from './index';
+import { RelatedTests } from './tests';
+
+const TRIMMED_MARKER = '// ... trimmed to fit the context window';
+
+// Ordered from least to most important; the selection itself is never trimmed.
+export function contextTrimSteps(context: CodeContext, tests: RelatedTests): TrimStep[] {
+  return [
+    {
+      label: 'related tests',
+      trim: () => {
+        if (tests.tests.length === 0) {
+          return false;
+        }
+        tests.tests.pop();
+        tests.omitted += 1;
+        return true;
+      }
+    },
+    {
+      label: 'related types',
+      trim: () => context.relatedTypes.pop() !== undefined
+    },
+    {
+      label: 'surrounding code',
+      trim: () => {
+        if (context.surrounding === undefined) {
+          return false;
+        }
+        context.surrounding = shrinkAroundMiddle(context.surrounding);
+        return true;
+      }
+    },
+    {
+      label: 'file outline',
+      trim: () => {
+        const shrunk = shrinkTail(context.outline);
+        if (shrunk === undefined) {
+          return false;
+        }
+        context.outline = shrunk;
+        return true;
+      }
+    },
+    {
+      label: 'enclosing member',
+      trim: () => {
+        const shrunk = context.enclosingMember === undefined ? undefined : shrinkTail(context.enclosingMember);
+        if (shrunk === undefined) {
+          return false;
+        }
+        context.enclosingMember = shrunk;
+        return true;
+      }
+    }
+  ];
+}
+
+// The selection sits in the middle of the line window, so drop lines from both ends.
+function shrinkAroundMiddle(text: string): string | undefined {
+  const lines = text.split('\n');
+  if (lines.length <= 2) {
+    return undefined;
+  }
+  const drop = Math.ceil(lines.length / 4);
+  return lines.slice(drop, lines.length - drop).join('\n');
+}
+
+function shrinkTail(text: string): string | undefined {
+  const lines = text.split('\n').filter((line) => line !== TRIMMED_MARKER);
+  if (lines.length <= 1) {
+    return undefined;
+  }
+  return [...lines.slice(0, Math.floor(lines.length / 2)), TRIMMED_MARKER].join('\n');
+}
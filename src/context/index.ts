@@ -0,0 +1,340 @@
+import * as vscode from 'vscode';
+import { IgnoreMatcher, loadIgnoreMatcher } from '../redaction/ignore';
+
+export interface RelatedType {
+  name: string;
+  file: string;
+  outline: string;
+}
+
+export interface CodeContext {
+  className?: string;
+  memberName?: string;
+  outline: string;
+  enclosingMember?: string;
+  selection: string;
+  surrounding?: string;
+  relatedTypes: RelatedType[];
+}
+
+export interface ContextOptions {
+  contextLines: number;
+  maxRelatedTypes: number;
+}
+
+const TYPE_KINDS = [
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Struct,
+  vscode.SymbolKind.Interface,
+  vscode.SymbolKind.Enum
+];
+const MEMBER_KINDS = [
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Constructor,
+  vscode.SymbolKind.Property,
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Operator
+];
+const DATA_KINDS = [
+  vscode.SymbolKind.Field,
+  vscode.SymbolKind.Constant,
+  vscode.SymbolKind.EnumMember,
+  vscode.SymbolKind.Event
+];
+const USING_PATTERN = /^\s*(global\s+)?using\s+(static\s+)?[\w.]+(\s*=\s*[\w.<>,\s]+)?\s*;/;
+const TYPE_REFERENCE_PATTERN = /\b[A-Z][A-Za-z0-9_]*\b/g;
+const MAX_MEMBER_LINES = 200;
+const BUILT_IN_TYPES = new Set([
+  'String', 'Int32', 'Int64', 'Boolean', 'Double', 'Decimal', 'Object', 'Task', 'List', 'Dictionary',
+  'IEnumerable', 'Func', 'Action', 'Console', 'Math', 'DateTime', 'TimeSpan', 'Guid', 'Exception',
+  'NotImplementedException', 'ArgumentNullException', 'ArgumentException', 'InvalidOperationException'
+]);
+
+export async function buildCodeContext(
+  document: vscode.TextDocument,
+  selection: vscode.Selection,
+  options: ContextOptions
+): Promise<CodeContext> {
+  const symbols = await getDocumentSymbols(document.uri);
+  const chain = containingSymbols(symbols, selection.start);
+  const types = chain.filter((symbol) => TYPE_KINDS.includes(symbol.kind));
+  const member = [...chain].reverse().find((symbol) => MEMBER_KINDS.includes(symbol.kind));
+
+  const outline = buildOutline(document, chain, member);
+  const enclosingMember = member ? truncateLines(document.getText(member.range), MAX_MEMBER_LINES) : undefined;
+  const surrounding =
+    !member || types.length === 0 ? buildLineWindow(document, selection, options.contextLines) : undefined;
+
+  const referenceRange = !selection.isEmpty ? selection : member?.range;
+  const relatedTypes = referenceRange
+    ? await findRelatedTypes(document, referenceRange, options.maxRelatedTypes, await loadIgnoreMatcher())
+    : [];
+
+  return {
+    className: types[types.length - 1]?.name,
+    memberName: member?.name.replace(/\(.*$/, ''),
+    outline,
+    enclosingMember,
+    selection: describeSelection(document, selection),
+    surrounding,
+    relatedTypes
+  };
+}
+
+export async function findEnclosingMember(
+  document: vscode.TextDocument,
+  position: vscode.Position
+): Promise<vscode.DocumentSymbol | undefined> {
+  const chain = containingSymbols(await getDocumentSymbols(document.uri), position);
+  return [...chain].reverse().find((symbol) => MEMBER_KINDS.includes(symbol.kind));
+}
+
+export async function findTypeSymbol(
+  document: vscode.TextDocument,
+  name?: string
+): Promise<vscode.DocumentSymbol | undefined> {
+  const types: vscode.DocumentSymbol[] = [];
+  const collect = (symbols: vscode.DocumentSymbol[]) => {
+    for (const symbol of symbols) {
+      if (TYPE_KINDS.includes(symbol.kind)) {
+        types.push(symbol);
+      }
+      collect(symbol.children);
+    }
+  };
+  collect(await getDocumentSymbols(document.uri));
+  return types.find((symbol) => symbol.name === name) ?? types[0];
+}
+
+export function formatCodeContext(context: CodeContext): string {
+  const sections = [`File outline:\n${context.outline || '(no symbols available)'}`];
+  if (context.enclosingMember) {
+    sections.push(`Enclosing member:\n${context.enclosingMember}`);
+  }
+  if (context.surrounding) {
+    sections.push(`Surrounding code:\n${context.surrounding}`);
+  }
+  sections.push(`Selection:\n${context.selection}`);
+  if (context.relatedTypes.length > 0) {
+    sections.push(`Related types:\n${formatRelatedTypes(context.relatedTypes)}`);
+  }
+  return sections.join('\n\n');
+}
+
+export function formatRelatedTypes(types: RelatedType[]): string {
+  return types.map((type) => `// ${type.file}\n${type.outline}`).join('\n\n');
+}
+
+function buildLineWindow(
+  document: vscode.TextDocument,
+  selection: vscode.Selection,
+  contextLines: number
+): string {
+  const startLine = Math.max(0, selection.start.line - contextLines);
+  const endLine = Math.min(document.lineCount - 1, selection.end.line + contextLines);
+  const lines: string[] = [];
+  for (let line = startLine; line <= endLine; line += 1) {
+    lines.push(document.lineAt(line).text);
+  }
+  return lines.join('\n');
+}
+
+async function getDocumentSymbols(uri: vscode.Uri): Promise<vscode.DocumentSymbol[]> {
+  try {
+    const result = await vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation>>(
+      'vscode.executeDocumentSymbolProvider',
+      uri
+    );
+    return (result ?? []).filter((symbol): symbol is vscode.DocumentSymbol => 'children' in symbol);
+  } catch {
+    return [];
+  }
+}
+
+function containingSymbols(symbols: vscode.DocumentSymbol[], position: vscode.Position): vscode.DocumentSymbol[] {
+  const chain: vscode.DocumentSymbol[] = [];
+  let level = symbols;
+  for (;;) {
+    const next = level.find((symbol) => symbol.range.contains(position));
+    if (!next) {
+      return chain;
+    }
+    chain.push(next);
+    level = next.children;
+  }
+}
+
+function buildOutline(
+  document: vscode.TextDocument,
+  chain: vscode.DocumentSymbol[],
+  member: vscode.DocumentSymbol | undefined
+): string {
+  const lines: string[] = [];
+  for (let line = 0; line < document.lineCount; line += 1) {
+    const text = document.lineAt(line).text;
+    if (USING_PATTERN.test(text)) {
+      lines.push(text.trim());
+    }
+  }
+
+  const fileScopedNamespace = document.getText().match(/^\s*namespace\s+[\w.]+\s*;/m);
+  if (fileScopedNamespace) {
+    lines.push('', fileScopedNamespace[0].trim());
+  }
+
+  let depth = 0;
+  for (const symbol of chain) {
+    if (symbol === member) {
+      break;
+    }
+    const indent = '    '.repeat(depth);
+    if (symbol.kind === vscode.SymbolKind.Namespace && !fileScopedNamespace) {
+      lines.push('', `${indent}namespace ${symbol.name}`);
+    } else if (TYPE_KINDS.includes(symbol.kind)) {
+      lines.push('', `${indent}${typeHeader(document, symbol)}`);
+      for (const child of symbol.children) {
+        if (child === member || chain.includes(child)) {
+          lines.push(`${indent}    // ${child === member ? '<enclosing member, shown below>' : child.name}`);
+        } else if (DATA_KINDS.includes(child.kind) || MEMBER_KINDS.includes(child.kind)) {
+          lines.push(`${indent}    ${declarationHeader(document, child)}`);
+        } else if (TYPE_KINDS.includes(child.kind)) {
+          lines.push(`${indent}    ${typeHeader(document, child)} { ... }`);
+        }
+      }
+    }
+    depth += 1;
+  }
+  return lines.join('\n').trim();
+}
+
+function declarationHeader(document: vscode.TextDocument, symbol: vscode.DocumentSymbol): string {
+  const firstLine = document.lineAt(symbol.range.start.line).text.trim();
+  const singleLine = symbol.range.start.line === symbol.range.end.line;
+  if (DATA_KINDS.includes(symbol.kind) || (symbol.kind === vscode.SymbolKind.Property && singleLine)) {
+    return firstLine;
+  }
+
+  const text = document.getText(symbol.range);
+  const withoutAttributes = text.replace(/^(\s*\[[^\]]*\]\s*)+/, '');
+  const end = findBodyStart(withoutAttributes);
+  const header = withoutAttributes.slice(0, end).replace(/\s+/g, ' ').trim();
+  if (symbol.kind === vscode.SymbolKind.Property) {
+    return `${header} { ... }`;
+  }
+  return end < withoutAttributes.length && !header.endsWith(';') ? `${header};` : header;
+}
+
+function typeHeader(document: vscode.TextDocument, symbol: vscode.DocumentSymbol): string {
+  return declarationHeader(document, symbol).replace(/;$/, '');
+}
+
+function findBodyStart(text: string): number {
+  let depth = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (char === '(' || char === '<') {
+      depth += 1;
+    } else if (char === ')' || char === '>') {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && (char === '{' || char === ';' || text.startsWith('=>', index))) {
+      return index;
+    }
+  }
+  return text.length;
+}
+
+function describeSelection(document: vscode.TextDocument, selection: vscode.Selection): string {
+  if (!selection.isEmpty) {
+    return document.getText(selection);
+  }
+  const line = document.lineAt(selection.start.line).text;
+  const location = `line ${selection.start.line + 1}, column ${selection.start.character + 1}`;
+  return `(no selection) Insert at ${location}: ${line.trim() || '<empty line>'}`;
+}
+
+async function findRelatedTypes(
+  document: vscode.TextDocument,
+  range: vscode.Range,
+  limit: number,
+  ignored: IgnoreMatcher
+): Promise<RelatedType[]> {
+  if (limit <= 0) {
+    return [];
+  }
+
+  const text = document.getText(range);
+  const baseOffset = document.offsetAt(range.start);
+  const seen = new Set<string>();
+  const related: RelatedType[] = [];
+
+  for (const match of text.matchAll(TYPE_REFERENCE_PATTERN)) {
+    const name = match[0];
+    if (seen.has(name) || BUILT_IN_TYPES.has(name)) {
+      continue;
+    }
+    seen.add(name);
+
+    const position = document.positionAt(baseOffset + (match.index ?? 0));
+    const definition = await findDefinition(document.uri, position);
+    if (!definition || definition.uri.toString() === document.uri.toString()) {
+      continue;
+    }
+    if (!vscode.workspace.getWorkspaceFolder(definition.uri) || ignored(definition.uri)) {
+      continue;
+    }
+
+    const outline = await outlineTypeAt(definition.uri, definition.range.start);
+    if (outline) {
+      related.push({ name, file: vscode.workspace.asRelativePath(definition.uri), outline });
+      if (related.length >= limit) {
+        break;
+      }
+    }
+  }
+  return related;
+}
+
+async function findDefinition(uri: vscode.Uri, position: vscode.Position): Promise<vscode.Location | undefined> {
+  try {
+    const result = await vscode.commands.executeCommand<Array<vscode.Location | vscode.LocationLink>>(
+      'vscode.executeDefinitionProvider',
+      uri,
+      position
+    );
+    const first = result?.[0];
+    if (!first) {
+      return undefined;
+    }
+    return 'targetUri' in first ? new vscode.Location(first.targetUri, first.targetRange) : first;
+  } catch {
+    return undefined;
+  }
+}
+
+async function outlineTypeAt(uri: vscode.Uri, position: vscode.Position): Promise<string | undefined> {
+  const document = await vscode.workspace.openTextDocument(uri);
+  const chain = containingSymbols(await getDocumentSymbols(uri), position);
+  const type = [...chain].reverse().find((symbol) => TYPE_KINDS.includes(symbol.kind));
+  if (!type) {
+    return undefined;
+  }
+
+  const lines = [typeHeader(document, type), '{'];
+  for (const child of type.children) {
+    if (child.kind === vscode.SymbolKind.EnumMember) {
+      lines.push(`    ${child.name},`);
+    } else if (DATA_KINDS.includes(child.kind) || MEMBER_KINDS.includes(child.kind)) {
+      lines.push(`    ${declarationHeader(document, child)}`);
+    }
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function truncateLines(text: string, maxLines: number): string {
+  const lines = text.split(/\r?\n/);
+  if (lines.length <= maxLines) {
+    return text;
+  }
+  return `${lines.slice(0, maxLines).join('\n')}\n// ... ${lines.length - maxLines} more lines`;
+}
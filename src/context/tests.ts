@@ -0,0 +1,282 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { loadIgnoreMatcher } from '../redaction/ignore';
+import { TestFailure, TestRunResult } from '../testRunner';
+import { splitTestName } from '../testRunner/stackTrace';
+
+export type TestFramework = 'xunit' | 'nunit' | 'mstest';
+
+export interface TestProject {
+  uri: vscode.Uri;
+  directory: string;
+  name: string;
+  framework?: TestFramework;
+}
+
+export interface TestTarget {
+  className?: string;
+  memberName?: string;
+}
+
+export interface RelatedTest {
+  file: string;
+  // Namespace-qualified when the file declares a namespace.
+  className?: string;
+  methodName: string;
+  code: string;
+  score: number;
+}
+
+export interface RelatedTests {
+  tests: RelatedTest[];
+  omitted: number;
+  failures: TestFailure[];
+}
+
+const EXCLUDE = '**/{bin,obj,node_modules}/**';
+const MAX_TEST_FILES = 500;
+const TEST_ATTRIBUTE_PATTERN = /\[\s*(?:[\w.]+\s*(?:\([^\]]*\))?\s*,\s*)*(Fact|Theory|Test|TestCase|TestCaseSource|TestMethod|DataTestMethod)\b/;
+const TEST_PROJECT_PATTERN = /<IsTestProject>\s*true\s*<\/IsTestProject>|Microsoft\.NET\.Test\.Sdk|"xunit|"NUnit|"MSTest\.TestFramework/i;
+const FRAMEWORK_PATTERNS: Array<[TestFramework, RegExp]> = [
+  ['xunit', /Include="xunit(\.core)?"/i],
+  ['nunit', /Include="NUnit"/i],
+  ['mstest', /Include="MSTest(\.TestFramework)?"/i]
+];
+const METHOD_NAME_PATTERN = /\b(?:void|Task)\s+(\w+)\s*\(/;
+const CLASS_NAME_PATTERN = /\bclass\s+(\w+)/;
+const NAMESPACE_PATTERN = /^\s*namespace\s+([\w.]+)/m;
+
+// Test file contents keyed by URI; a file is read again only when its mtime changes.
+const testFileCache = new Map<string, { mtime: number; text: string }>();
+
+export async function findRelatedTests(
+  target: TestTarget,
+  maxChars: number,
+  lastResult?: TestRunResult
+): Promise<RelatedTests> {
+  if (!target.className && !target.memberName) {
+    return { tests: [], omitted: 0, failures: [] };
+  }
+
+  const candidates: RelatedTest[] = [];
+  const ignored = await loadIgnoreMatcher();
+  const files = (await findTestFiles()).filter((file) => !ignored(file));
+  pruneTestFileCache(files);
+  for (const uri of files) {
+    const text = await readTestFile(uri);
+    if (text === undefined || (!mentions(text, target.className) && !mentions(text, target.memberName))) {
+      continue;
+    }
+    const fileBonus = matchesNamingConvention(uri, target.className) ? 2 : 0;
+    for (const method of extractTestMethods(text)) {
+      const score =
+        (mentions(method.code, target.memberName) ? 3 : 0) +
+        (mentions(method.code, target.className) ? 1 : 0) +
+        fileBonus;
+      if (score > 0) {
+        candidates.push({ file: vscode.workspace.asRelativePath(uri), ...method, score });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  const tests: RelatedTest[] = [];
+  let used = 0;
+  for (const candidate of candidates) {
+    if (used + candidate.code.length > maxChars) {
+      continue;
+    }
+    tests.push(candidate);
+    used += candidate.code.length;
+  }
+
+  // Names like Constructor_Throws repeat across classes, so a failure has to match the class as well.
+  const failures = (lastResult?.failures ?? []).filter((failure) => {
+    const methodName = splitTestName(failure.testName).methodName;
+    const className = failureClassName(failure);
+    return (
+      !!className &&
+      tests.some(
+        (test) => test.methodName === methodName && !!test.className && sameClass(className, test.className)
+      )
+    );
+  });
+
+  return { tests, omitted: candidates.length - tests.length, failures };
+}
+
+export function formatRelatedTests(related: RelatedTests): string | undefined {
+  if (related.tests.length === 0) {
+    return undefined;
+  }
+
+  const byFile = new Map<string, RelatedTest[]>();
+  for (const test of related.tests) {
+    byFile.set(test.file, [...(byFile.get(test.file) ?? []), test]);
+  }
+  const sections = [...byFile.entries()].map(
+    ([file, tests]) => `// ${file}\n${tests.map((test) => test.code).join('\n\n')}`
+  );
+  if (related.omitted > 0) {
+    sections.push(`// ${related.omitted} more related test(s) omitted to keep the prompt small`);
+  }
+  if (related.failures.length > 0) {
+    const failures = related.failures.map(
+      (failure) => `- ${failure.testName}: ${(failure.message ?? 'Test failed').trim().split(/\r?\n/)[0]}`
+    );
+    sections.push(`Failures from the last test run:\n${failures.join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+export async function findTestProjects(): Promise<TestProject[]> {
+  const projects: TestProject[] = [];
+  for (const uri of await vscode.workspace.findFiles('**/*.csproj', EXCLUDE)) {
+    const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    const name = path.basename(uri.fsPath, '.csproj');
+    if (!TEST_PROJECT_PATTERN.test(content) && !/\.Tests?$/i.test(name)) {
+      continue;
+    }
+    projects.push({
+      uri,
+      directory: path.dirname(uri.fsPath),
+      name,
+      framework: FRAMEWORK_PATTERNS.find(([, pattern]) => pattern.test(content))?.[0]
+    });
+  }
+  return projects;
+}
+
+async function findTestFiles(): Promise<vscode.Uri[]> {
+  const files: vscode.Uri[] = [];
+  for (const project of await findTestProjects()) {
+    const pattern = new vscode.RelativePattern(project.directory, '**/*.cs');
+    files.push(...(await vscode.workspace.findFiles(pattern, EXCLUDE, MAX_TEST_FILES - files.length)));
+    if (files.length >= MAX_TEST_FILES) {
+      break;
+    }
+  }
+  return files;
+}
+
+function failureClassName(failure: TestFailure): string | undefined {
+  if (failure.className) {
+    return failure.className;
+  }
+  const name = failure.testName.replace(/\(.*\)\s*$/, '');
+  const separator = name.lastIndexOf('.');
+  return separator > 0 ? name.slice(0, separator) : undefined;
+}
+
+// Compares namespaces only when both names carry one.
+function sameClass(a: string, b: string): boolean {
+  if (a.includes('.') && b.includes('.')) {
+    return a === b;
+  }
+  return a.split('.').pop() === b.split('.').pop();
+}
+
+async function readTestFile(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    const { mtime } = await vscode.workspace.fs.stat(uri);
+    const cached = testFileCache.get(uri.toString());
+    if (cached?.mtime === mtime) {
+      return cached.text;
+    }
+    const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    testFileCache.set(uri.toString(), { mtime, text });
+    return text;
+  } catch {
+    // Deleted since the search.
+    testFileCache.delete(uri.toString());
+    return undefined;
+  }
+}
+
+function pruneTestFileCache(files: vscode.Uri[]): void {
+  const current = new Set(files.map((uri) => uri.toString()));
+  for (const key of testFileCache.keys()) {
+    if (!current.has(key)) {
+      testFileCache.delete(key);
+    }
+  }
+}
+
+function extractTestMethods(text: string): Array<{ className?: string; methodName: string; code: string }> {
+  const lines = text.split(/\r?\n/);
+  const methods: Array<{ className?: string; methodName: string; code: string }> = [];
+  const namespace = text.match(NAMESPACE_PATTERN)?.[1];
+  let className: string | undefined;
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const declaredClass = lines[index].match(CLASS_NAME_PATTERN)?.[1];
+    if (declaredClass) {
+      className = namespace ? `${namespace}.${declaredClass}` : declaredClass;
+    }
+    if (!TEST_ATTRIBUTE_PATTERN.test(lines[index])) {
+      continue;
+    }
+
+    let signature = index;
+    while (signature < lines.length && !METHOD_NAME_PATTERN.test(lines[signature])) {
+      signature += 1;
+    }
+    if (signature >= lines.length) {
+      break;
+    }
+
+    const end = findMethodEnd(lines, signature);
+    methods.push({
+      className,
+      methodName: lines[signature].match(METHOD_NAME_PATTERN)?.[1] ?? 'UnknownTest',
+      code: dedent(lines.slice(index, end + 1))
+    });
+    index = end;
+  }
+  return methods;
+}
+
+function findMethodEnd(lines: string[], signature: number): number {
+  let depth = 0;
+  let opened = false;
+  for (let index = signature; index < lines.length; index += 1) {
+    const line = lines[index];
+    if (!opened && line.includes('=>') && !line.includes('{')) {
+      let end = index;
+      while (end < lines.length - 1 && !lines[end].trimEnd().endsWith(';')) {
+        end += 1;
+      }
+      return end;
+    }
+    for (const char of line) {
+      if (char === '{') {
+        depth += 1;
+        opened = true;
+      } else if (char === '}') {
+        depth -= 1;
+      }
+    }
+    if (opened && depth <= 0) {
+      return index;
+    }
+  }
+  return lines.length - 1;
+}
+
+function matchesNamingConvention(uri: vscode.Uri, className: string | undefined): boolean {
+  if (!className) {
+    return false;
+  }
+  const name = path.basename(uri.fsPath, '.cs');
+  return new RegExp(`^${className}(Tests?|Specs?|Fixture)$`, 'i').test(name);
+}
+
+function mentions(text: string, name: string | undefined): boolean {
+  return !!name && new RegExp(`\\b${name}\\b`).test(text);
+}
+
+function dedent(lines: string[]): string {
+  const indents = lines.filter((line) => line.trim()).map((line) => line.match(/^\s*/)?.[0].length ?? 0);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map((line) => line.slice(common)).join('\n');
+}
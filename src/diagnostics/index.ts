@@ -0,0 +1,178 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { TEST_DIAGNOSTIC_SOURCE } from '../codeActions';
+import { TestFailure, TestRunResult } from '../testRunner';
+import { parseStackTrace, splitTestName, StackFrame } from '../testRunner/stackTrace';
+
+export interface SourceLocation {
+  uri: vscode.Uri;
+  line: number;
+}
+
+const SOURCE_EXCLUDE = '**/{bin,obj,node_modules}/**';
+const MAX_SOURCE_FILES = 2000;
+
+// Returns the failures that could not be placed in a source file; they are left to the output and the panel.
+export async function publishTestDiagnostics(
+  collection: vscode.DiagnosticCollection,
+  result: TestRunResult | undefined
+): Promise<TestFailure[]> {
+  const resolver = new SourceResolver();
+  const byFile = new Map<string, { uri: vscode.Uri; entries: vscode.Diagnostic[] }>();
+  const unplaced: TestFailure[] = [];
+
+  for (const failure of result?.failures ?? []) {
+    const diagnostic = await createDiagnostic(failure, resolver);
+    if (!diagnostic) {
+      unplaced.push(failure);
+      continue;
+    }
+    const key = diagnostic.location.uri.toString();
+    const bucket = byFile.get(key) ?? { uri: diagnostic.location.uri, entries: [] };
+    bucket.entries.push(diagnostic.entry);
+    byFile.set(key, bucket);
+  }
+
+  const stale: vscode.Uri[] = [];
+  collection.forEach((uri) => {
+    if (!byFile.has(uri.toString())) {
+      stale.push(uri);
+    }
+  });
+  stale.forEach((uri) => collection.delete(uri));
+  for (const { uri, entries } of byFile.values()) {
+    collection.set(uri, entries);
+  }
+  return unplaced;
+}
+
+async function createDiagnostic(
+  failure: TestFailure,
+  resolver: SourceResolver
+): Promise<{ location: SourceLocation; entry: vscode.Diagnostic } | undefined> {
+  const frames = parseStackTrace(failure.stackTrace);
+  const resolved: Array<{ frame: StackFrame; location: SourceLocation }> = [];
+  for (const frame of frames) {
+    const uri = await resolver.resolveFile(frame.file);
+    if (uri) {
+      resolved.push({ frame, location: { uri, line: Math.max(0, frame.line - 1) } });
+    }
+  }
+
+  const location = resolved[0]?.location ?? (await resolver.findTestMethod(failure.testName));
+  if (!location) {
+    return undefined;
+  }
+
+  const entry = new vscode.Diagnostic(
+    new vscode.Range(location.line, 0, location.line, Number.MAX_SAFE_INTEGER),
+    `${failure.testName}: ${failure.message ?? 'Test failed'}`,
+    vscode.DiagnosticSeverity.Error
+  );
+  entry.source = TEST_DIAGNOSTIC_SOURCE;
+  entry.relatedInformation = resolved.slice(1).map(
+    ({ frame, location: related }) =>
+      new vscode.DiagnosticRelatedInformation(
+        new vscode.Location(related.uri, new vscode.Position(related.line, 0)),
+        `at ${frame.method}`
+      )
+  );
+  return { location, entry };
+}
+
+export class SourceResolver {
+  private readonly files = new Map<string, vscode.Uri | undefined>();
+  private readonly contents = new Map<string, string>();
+  private sourceFiles: vscode.Uri[] | undefined;
+
+  async resolveFile(filePath: string): Promise<vscode.Uri | undefined> {
+    if (this.files.has(filePath)) {
+      return this.files.get(filePath);
+    }
+    const resolved = await this.lookupFile(filePath);
+    this.files.set(filePath, resolved);
+    return resolved;
+  }
+
+  async findTestMethod(testName: string): Promise<SourceLocation | undefined> {
+    const { className, methodName } = splitTestName(testName);
+    const declaration = new RegExp(`\\b(?:void|Task(?:<[^>]+>)?)\\s+${escapeRegExp(methodName)}\\s*\\(`);
+    const all = await this.listSourceFiles();
+    const preferred = className ? all.filter((uri) => path.basename(uri.fsPath, '.cs') === className) : [];
+
+    for (const uri of [...preferred, ...all.filter((candidate) => !preferred.includes(candidate))]) {
+      const lines = (await this.read(uri)).split(/\r?\n/);
+      const line = lines.findIndex((text) => declaration.test(text));
+      if (line !== -1) {
+        return { uri, line };
+      }
+    }
+    return undefined;
+  }
+
+  private async lookupFile(filePath: string): Promise<vscode.Uri | undefined> {
+    const direct = vscode.Uri.file(filePath);
+    if (vscode.workspace.getWorkspaceFolder(direct) && (await exists(direct))) {
+      return direct;
+    }
+
+    // Stack traces may come from another machine or container: match on the longest common path suffix.
+    const segments = filePath.split(/[\\/]/).filter(Boolean);
+    const name = segments[segments.length - 1];
+    if (!name) {
+      return undefined;
+    }
+    const candidates = (await this.listSourceFiles()).filter((uri) => path.basename(uri.fsPath) === name);
+    let best: { uri: vscode.Uri; score: number } | undefined;
+    for (const uri of candidates) {
+      const score = commonSuffixLength(segments, uri.fsPath.split(/[\\/]/).filter(Boolean));
+      if (!best || score > best.score) {
+        best = { uri, score };
+      }
+    }
+    return best?.uri;
+  }
+
+  private async listSourceFiles(): Promise<vscode.Uri[]> {
+    if (!this.sourceFiles) {
+      this.sourceFiles = await vscode.workspace.findFiles('**/*.cs', SOURCE_EXCLUDE, MAX_SOURCE_FILES);
+    }
+    return this.sourceFiles;
+  }
+
+  private async read(uri: vscode.Uri): Promise<string> {
+    const key = uri.toString();
+    const cached = this.contents.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    this.contents.set(key, content);
+    return content;
+  }
+}
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function commonSuffixLength(a: string[], b: string[]): number {
+  let count = 0;
+  while (
+    count < a.length &&
+    count < b.length &&
+    a[a.length - 1 - count].toLowerCase() === b[b.length - 1 - count].toLowerCase()
+  ) {
+    count += 1;
+  }
+  return count;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
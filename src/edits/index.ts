@@ -0,0 +1,285 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export type StructuredEditOp = 'replace' | 'insertBefore' | 'insertAfter' | 'create';
+
+export interface StructuredEdit {
+  op: StructuredEditOp;
+  path: string;
+  anchor?: string;
+  // 1-based, inclusive line numbers.
+  range?: { startLine: number; endLine: number };
+  text: string;
+}
+
+export interface ParsedEdits {
+  edits: StructuredEdit[];
+  errors: string[];
+}
+
+// One entry per file: the whole change is previewed from original/updated and applied as range/text.
+export interface FileEditPlan {
+  uri: vscode.Uri;
+  create: boolean;
+  original: string;
+  updated: string;
+  range: vscode.Range;
+  replaced: string;
+  text: string;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const OPS: StructuredEditOp[] = ['replace', 'insertBefore', 'insertAfter', 'create'];
+const JSON_FENCE_PATTERN = /```(?:json)?[ \t]*\n([\s\S]*?)```/g;
+
+// Returns undefined when the response is not in the edit format at all, so callers can fall back to plain code.
+export function parseStructuredEdits(raw: string): ParsedEdits | undefined {
+  const text = raw.trim();
+  const candidates = [
+    ...[...text.matchAll(JSON_FENCE_PATTERN)].map((match) => match[1]),
+    text,
+    text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1)
+  ];
+  for (const candidate of candidates) {
+    let value: unknown;
+    try {
+      value = JSON.parse(candidate);
+    } catch {
+      continue;
+    }
+    const edits = (value as { edits?: unknown } | null)?.edits;
+    if (Array.isArray(edits)) {
+      return validateShapes(edits);
+    }
+  }
+  return undefined;
+}
+
+export function describeStructuredEdits(edits: StructuredEdit[]): string {
+  return edits
+    .map((edit) => {
+      const where = edit.range
+        ? ` lines ${edit.range.startLine}-${edit.range.endLine}`
+        : edit.anchor !== undefined
+          ? ` at "${edit.anchor.split('\n')[0].trim()}"`
+          : '';
+      return `// ${edit.op} ${edit.path}${where}\n${edit.text}`;
+    })
+    .join('\n\n');
+}
+
+// Relative paths resolve against the workspace folder of `base`; nothing outside the workspace can be touched.
+export async function planStructuredEdits(
+  edits: StructuredEdit[],
+  base: vscode.Uri
+): Promise<{ plans: FileEditPlan[]; errors: string[] }> {
+  const folder = vscode.workspace.getWorkspaceFolder(base) ?? vscode.workspace.workspaceFolders?.[0];
+  if (!folder) {
+    return { plans: [], errors: ['Structured edits need an open workspace folder.'] };
+  }
+
+  const errors: string[] = [];
+  const byFile = new Map<string, { uri: vscode.Uri; edits: StructuredEdit[] }>();
+  for (const edit of edits) {
+    const uri = resolvePath(folder, edit.path);
+    if (!uri) {
+      errors.push(`${edit.path}: the path is outside the workspace.`);
+      continue;
+    }
+    const entry = byFile.get(uri.toString()) ?? { uri, edits: [] };
+    entry.edits.push(edit);
+    byFile.set(uri.toString(), entry);
+  }
+
+  const plans: FileEditPlan[] = [];
+  for (const { uri, edits: fileEdits } of byFile.values()) {
+    const label = vscode.workspace.asRelativePath(uri);
+    const size = await fileSize(uri);
+    if (fileEdits.some((edit) => edit.op === 'create')) {
+      // An empty file counts as new, e.g. the test file created for a generation.
+      if (fileEdits.length > 1) {
+        errors.push(`${label}: a created file cannot have other edits.`);
+      } else if (size) {
+        errors.push(`${label}: the file already exists.`);
+      } else {
+        const text = fileEdits[0].text;
+        const range = new vscode.Range(0, 0, 0, 0);
+        plans.push({ uri, create: true, original: '', updated: text, range, replaced: '', text });
+      }
+      continue;
+    }
+    if (size === undefined) {
+      errors.push(`${label}: the file does not exist.`);
+      continue;
+    }
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    const spans: Span[] = [];
+    for (const edit of fileEdits) {
+      const span = locate(document, edit);
+      if (typeof span === 'string') {
+        errors.push(`${label}: ${span}`);
+      } else {
+        spans.push(span);
+      }
+    }
+    spans.sort((a, b) => a.start - b.start);
+    if (spans.some((span, index) => index > 0 && span.start < spans[index - 1].end)) {
+      errors.push(`${label}: edits overlap.`);
+      continue;
+    }
+    const plan = spans.length === fileEdits.length ? planFile(document, spans) : undefined;
+    if (plan && plan.updated !== plan.original) {
+      plans.push(plan);
+    }
+  }
+  return { plans, errors };
+}
+
+export function buildWorkspaceEdit(plans: FileEditPlan[]): vscode.WorkspaceEdit {
+  const edit = new vscode.WorkspaceEdit();
+  for (const plan of plans) {
+    if (plan.create) {
+      edit.createFile(plan.uri, { ignoreIfExists: true });
+      edit.insert(plan.uri, new vscode.Position(0, 0), plan.text);
+    } else {
+      edit.replace(plan.uri, plan.range, plan.text);
+    }
+  }
+  return edit;
+}
+
+function validateShapes(values: unknown[]): ParsedEdits {
+  const edits: StructuredEdit[] = [];
+  const errors: string[] = [];
+  values.forEach((value, index) => {
+    const edit = value as Partial<StructuredEdit> | null;
+    const name = `Edit ${index + 1}`;
+    if (!edit || typeof edit !== 'object') {
+      errors.push(`${name}: not an object.`);
+    } else if (!OPS.includes(edit.op as StructuredEditOp)) {
+      errors.push(`${name}: unknown op "${String(edit.op)}".`);
+    } else if (typeof edit.path !== 'string' || !edit.path.trim()) {
+      errors.push(`${name}: missing path.`);
+    } else if (typeof edit.text !== 'string') {
+      errors.push(`${name}: missing text.`);
+    } else if (edit.op === 'create' ? edit.anchor !== undefined || edit.range !== undefined : !hasTarget(edit)) {
+      errors.push(
+        edit.op === 'create'
+          ? `${name}: create takes no anchor or range.`
+          : `${name}: ${edit.op} needs ${edit.op === 'replace' ? 'either an anchor or a range' : 'an anchor'}.`
+      );
+    } else {
+      edits.push({
+        op: edit.op as StructuredEditOp,
+        path: edit.path,
+        anchor: edit.anchor,
+        range: edit.range,
+        text: edit.text
+      });
+    }
+  });
+  return { edits, errors };
+}
+
+function hasTarget(edit: Partial<StructuredEdit>): boolean {
+  const anchor = typeof edit.anchor === 'string' && edit.anchor.length > 0;
+  const range =
+    !!edit.range &&
+    Number.isInteger(edit.range.startLine) &&
+    Number.isInteger(edit.range.endLine) &&
+    edit.range.startLine >= 1 &&
+    edit.range.endLine >= edit.range.startLine;
+  return edit.op === 'replace' ? anchor !== range : anchor && edit.range === undefined;
+}
+
+function resolvePath(folder: vscode.WorkspaceFolder, relative: string): vscode.Uri | undefined {
+  const fsPath = path.isAbsolute(relative) ? path.normalize(relative) : path.join(folder.uri.fsPath, relative);
+  const uri = vscode.Uri.file(fsPath);
+  return vscode.workspace.getWorkspaceFolder(uri) ? uri : undefined;
+}
+
+async function fileSize(uri: vscode.Uri): Promise<number | undefined> {
+  try {
+    return (await vscode.workspace.fs.stat(uri)).size;
+  } catch {
+    return undefined;
+  }
+}
+
+// Returns an error message when the edit does not match the file.
+function locate(document: vscode.TextDocument, edit: StructuredEdit): Span | string {
+  const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+  const text = edit.text.replace(/\r?\n/g, eol);
+
+  if (edit.range) {
+    const { startLine, endLine } = edit.range;
+    if (endLine > document.lineCount) {
+      return `lines ${startLine}-${endLine} are past the end of the file (${document.lineCount} lines).`;
+    }
+    const start = document.offsetAt(document.lineAt(startLine - 1).range.start);
+    const end = document.offsetAt(document.lineAt(endLine - 1).range.end);
+    return { start, end, text: text.replace(/(\r?\n)+$/, '') };
+  }
+
+  const content = document.getText();
+  const anchor = (edit.anchor ?? '').replace(/\r?\n/g, eol);
+  const index = content.indexOf(anchor);
+  if (index < 0) {
+    return `anchor "${anchor.split(/\r?\n/)[0].trim()}" was not found.`;
+  }
+  if (content.indexOf(anchor, index + 1) >= 0) {
+    return `anchor "${anchor.split(/\r?\n/)[0].trim()}" matches more than one place.`;
+  }
+  if (edit.op === 'replace') {
+    return { start: index, end: index + anchor.length, text };
+  }
+
+  // Insertions are line based: the text goes on its own lines before or after the anchor's lines.
+  const lines = text.endsWith(eol) ? text : text + eol;
+  if (edit.op === 'insertBefore') {
+    const start = document.offsetAt(document.lineAt(document.positionAt(index).line).range.start);
+    return { start, end: start, text: lines };
+  }
+  const line = document.lineAt(document.positionAt(index + anchor.length).line);
+  const end = document.offsetAt(line.rangeIncludingLineBreak.end);
+  return line.rangeIncludingLineBreak.end.isEqual(line.range.end)
+    ? { start: end, end, text: eol + lines.slice(0, -eol.length) }
+    : { start: end, end, text: lines };
+}
+
+// Collapses the spans into the single region that actually changed, so history can roll it back.
+function planFile(document: vscode.TextDocument, spans: Span[]): FileEditPlan {
+  const original = document.getText();
+  let updated = original;
+  for (const span of [...spans].reverse()) {
+    updated = updated.slice(0, span.start) + span.text + updated.slice(span.end);
+  }
+
+  let prefix = 0;
+  const shortest = Math.min(original.length, updated.length);
+  while (prefix < shortest && original[prefix] === updated[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < shortest - prefix &&
+    original[original.length - 1 - suffix] === updated[updated.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+  return {
+    uri: document.uri,
+    create: false,
+    original,
+    updated,
+    range: new vscode.Range(document.positionAt(prefix), document.positionAt(original.length - suffix)),
+    replaced: original.slice(prefix, original.length - suffix),
+    text: updated.slice(prefix, updated.length - suffix)
+  };
+}
@@ -1,186 +1,1947 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { LlmClient } from './llm/client';
-import { DEFAULT_RESULTS_DIRECTORY, runTests, TestRunResult } from './testRunner';
-import { renderWebview, WebviewState } from './ui/webview';
+import { applyAcceptedSites, BatchSite, BatchStore, scanBatchSites } from './batch';
+import { BuildResult, formatCompilerMessage, publishBuildDiagnostics, runBuild } from './build';
+import {
+  AssistCodeActionProvider,
+  EXPLAIN_CODE_COMMAND,
+  FIX_FAILING_TEST_COMMAND,
+  GENERATE_TESTS_COMMAND,
+  IMPLEMENT_METHOD_COMMAND
+} from './codeActions';
+import {
+  EXPLAIN_TEMPLATE,
+  FIX_TEST_TEMPLATE,
+  GENERATE_TESTS_TEMPLATE,
+  IMPLEMENT_TEMPLATE,
+  STRUCTURED_EDITS_TEMPLATE,
+  testFrameworkValues,
+  TODO_TEMPLATE
+} from './codeActions/prompts';
+import {
+  buildCodeContext,
+  CodeContext,
+  findEnclosingMember,
+  findTypeSymbol,
+  formatCodeContext,
+  formatRelatedTypes
+} from './context';
+import { contextTrimSteps } from './context/budget';
+import { findRelatedTests, findTestProjects, formatRelatedTests, TestProject } from './context/tests';
+import { publishTestDiagnostics } from './diagnostics';
+import {
+  buildWorkspaceEdit,
+  describeStructuredEdits,
+  FileEditPlan,
+  ParsedEdits,
+  parseStructuredEdits,
+  planStructuredEdits
+} from './edits';
+import { InlineCompletionProvider } from './inline';
+import {
+  deserializeRange,
+  GenerationHistory,
+  GenerationRecord,
+  rollbackGeneration,
+  serializeRange
+} from './history';
+import { ApiKeyStore, MissingApiKeyError, SET_API_KEY_COMMAND } from './llm/apiKey';
+import { CacheMode, isCacheMode, ResponseCache } from './llm/cache';
+import { LlmClient, LlmClientOptions, Semaphore, UsageReporter } from './llm/client';
+import { DEFAULT_ENDPOINT_NAME, EndpointSettings, readNamedEndpoints, resolveEndpoint } from './llm/endpoints';
+import { ChatMessage, isProviderId } from './llm/providers';
+import { indentationAt, normalizeResponse } from './llm/response';
+import { budgetFor, contextWindowFor, estimateTokens, fitToBudget, PromptBudget } from './llm/tokens';
+import { compileRedactionRules, findPlaceholders, RedactionRule, redactSecrets } from './redaction';
+import { IGNORE_FILE, loadIgnoreMatcher } from './redaction/ignore';
+import { findNearestProject, findRelatedTestProjects, resolveTestScopes, scopeTestsCommand } from './projects';
+import { buildCompileFixPrompt, buildRepairPrompt, isRepairable, RepairIteration } from './repair';
+import { TestExplorer } from './testExplorer';
+import {
+  DEFAULT_RESULTS_DIRECTORY,
+  isResultFormat,
+  mergeResults,
+  runTests,
+  TestFailure,
+  TestResultFormatSetting,
+  TestRunResult
+} from './testRunner';
+import { PROPOSAL_SCHEME, ProposalPreview } from './ui/diffPreview';
+import { EditPlanPreview } from './ui/editPreview';
+import { HistoryItem, HistoryTreeProvider } from './ui/historyView';
+import { EndpointStatusBar, UsageStatusBar } from './ui/statusBar';
+import { USAGE_REPORT_URI, UsageReportProvider } from './ui/usageReport';
+import { AssistPanel, PanelMessage } from './ui/assistPanel';
+import { BatchItem, BatchPreview, BatchTreeProvider } from './ui/batchView';
+import { ChatTurn, PanelAction } from './ui/webview';
+import {
+  BudgetAction,
+  BudgetExceededError,
+  formatCost,
+  ModelPrice,
+  priceFor,
+  today,
+  UsageTracker
+} from './usage';
+import { delay, withCancellableProgress } from './util';
 
 interface AssistantConfiguration {
-  apiUrl: string;
-  apiKey: string;
-  model: string;
+  endpoint: EndpointSettings;
+  endpoints: EndpointSettings[];
   timeoutMs: number;
   maxTokens: number;
   temperature: number;
   autoRunTests: boolean;
   testsCommand: string;
   runTestsOnSave: boolean;
+  runTestsOnSaveDebounceMs: number;
+  testTimeoutMs: number;
+  testResultFormat: TestResultFormatSetting;
+  validateBuild: boolean;
+  defaultTestProject: string;
+  buildCommand: string;
+  buildTimeoutMs: number;
+  maxBuildFixAttempts: number;
   showTestOutputPanel: boolean;
   contextLines: number;
+  maxRelatedTypes: number;
+  maxTestContextChars: number;
   promptTemplatePath: string;
   maxConcurrentRequests: number;
-  useChatApi: boolean;
+  stream: boolean;
+  autoFixFailingTests: boolean;
+  maxFixAttempts: number;
+  inlineCompletionsEnabled: boolean;
+  inlineDebounceMs: number;
+  inlineMaxTokens: number;
+  cacheMode: CacheMode;
+  cacheMaxSizeMb: number;
+  cacheDirectory: string;
+  modelContextWindows: Record<string, number>;
+  usagePrices: Record<string, ModelPrice>;
+  dailyBudget: number;
+  budgetAction: BudgetAction;
+  redactionEnabled: boolean;
+  redactionPatterns: string[];
+  structuredEdits: boolean;
 }
 
 const CHANNEL_NAME = 'DeepSeek C# Assistant';
-const DEFAULT_TESTS_COMMAND = `dotnet test --logger "trx;LogFileName=results.trx" --results-directory ./${DEFAULT_RESULTS_DIRECTORY}`;
+const STREAM_RENDER_INTERVAL_MS = 150;
+const MAX_EXPORT_CHOICES = 50;
+const MIN_CHAT_OUTPUT_TOKENS = 256;
+const DEFAULT_TODO_INSTRUCTION = 'Implement what the surrounding code needs at this point.';
+const DEFAULT_TESTS_COMMAND = `dotnet test --logger trx --results-directory ./${DEFAULT_RESULTS_DIRECTORY}`;
 let diagnostics: vscode.DiagnosticCollection | undefined;
+let buildDiagnostics: vscode.DiagnosticCollection | undefined;
+let history: GenerationHistory | undefined;
+let proposals: ProposalPreview | undefined;
+let editPreview: EditPlanPreview | undefined;
+let apiKeys: ApiKeyStore | undefined;
+let lastTestResult: TestRunResult | undefined;
+let testExplorer: TestExplorer | undefined;
+let saveTestRun: vscode.CancellationTokenSource | undefined;
+let requestLimiter: { size: number; semaphore: Semaphore } | undefined;
+let assistPanel: AssistPanel | undefined;
+let responseCache: ResponseCache | undefined;
+let batchStore: BatchStore | undefined;
+let batchPreview: BatchPreview | undefined;
+let batchRunning = false;
+let defaultCacheDirectory: string | undefined;
+let chat: ChatSession | undefined;
+let usageTracker: UsageTracker | undefined;
+let budgetWarnedOn: string | undefined;
 
 export function activate(context: vscode.ExtensionContext): void {
   const output = vscode.window.createOutputChannel(CHANNEL_NAME);
   diagnostics = vscode.languages.createDiagnosticCollection('deepseek-csharp-assistant');
+  buildDiagnostics = vscode.languages.createDiagnosticCollection('deepseek-csharp-build');
 
-  context.subscriptions.push(output, diagnostics);
+  history = new GenerationHistory(context.workspaceState);
+  const historyProvider = new HistoryTreeProvider(history);
+  proposals = new ProposalPreview();
+  editPreview = new EditPlanPreview();
+  apiKeys = new ApiKeyStore(context.secrets, context.globalState);
+  defaultCacheDirectory = path.join(context.globalStorageUri.fsPath, 'responseCache');
+  testExplorer = new TestExplorer((filter, token) =>
+    executeTests(readConfiguration(), output, 'Test Explorer', { filter, token })
+  );
+
+  assistPanel = new AssistPanel();
+  batchStore = new BatchStore(context.workspaceState);
+  batchPreview = new BatchPreview();
+  const batchProvider = new BatchTreeProvider(batchStore);
+
+  context.subscriptions.push(
+    output,
+    diagnostics,
+    buildDiagnostics,
+    history,
+    historyProvider,
+    proposals,
+    editPreview,
+    testExplorer,
+    assistPanel,
+    assistPanel.onDidReceiveMessage((message) => handlePanelMessage(message)),
+    batchStore,
+    batchPreview,
+    batchProvider
+  );
+
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider('deepseekCSharp.history', historyProvider),
+    vscode.commands.registerCommand('deepseekCSharp.assist', async () => {
+      await handleAssistCommand(output);
+    }),
+    vscode.commands.registerCommand(SET_API_KEY_COMMAND, async () => {
+      const endpoint = await pickEndpoint(readConfiguration(), 'Select the endpoint to store an API key for');
+      if (!endpoint) {
+        return;
+      }
+      const value = await vscode.window.showInputBox({
+        prompt: `Enter the API key used for the "${endpoint.name}" endpoint`,
+        password: true,
+        ignoreFocusOut: true
+      });
+      if (value?.trim()) {
+        await apiKeys?.set(value.trim(), endpoint.name);
+        vscode.window.showInformationMessage('DeepSeek API key saved to secure storage.');
+      }
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.clearApiKey', async () => {
+      const endpoint = await pickEndpoint(readConfiguration(), 'Select the endpoint whose API key to remove');
+      if (endpoint) {
+        await apiKeys?.clear(endpoint.name);
+        vscode.window.showInformationMessage('DeepSeek API key removed from secure storage.');
+      }
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.selectEndpoint', async () => {
+      const config = readConfiguration();
+      const endpoint = await pickEndpoint(config, 'Select the LLM endpoint to use', true);
+      if (endpoint) {
+        const target = vscode.workspace.workspaceFolders
+          ? vscode.ConfigurationTarget.Workspace
+          : vscode.ConfigurationTarget.Global;
+        const value = endpoint.name === DEFAULT_ENDPOINT_NAME ? undefined : endpoint.name;
+        await vscode.workspace.getConfiguration('deepseekCSharp.assistant').update('activeEndpoint', value, target);
+      }
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.pinTestProject', async () => {
+      await pinTestProject();
+    }),
+    vscode.window.registerTreeDataProvider('deepseekCSharp.batch', batchProvider),
+    vscode.commands.registerCommand('deepseekCSharp.batchImplement', async () => {
+      await handleBatchCommand(output);
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.previewBatchSite', async (item?: BatchItem) => {
+      if (item) {
+        await batchPreview?.show(item.site);
+      }
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.acceptBatchSite', async (item?: BatchItem) => {
+      if (item?.site.code !== undefined) {
+        await batchStore?.updateSite(item.site.id, { status: 'accepted' });
+      }
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.rejectBatchSite', async (item?: BatchItem) => {
+      if (item) {
+        await batchStore?.updateSite(item.site.id, { status: 'rejected' });
+      }
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.regenerateBatchSite', async (item?: BatchItem) => {
+      if (item) {
+        await batchStore?.updateSite(item.site.id, { status: 'pending', code: undefined, error: undefined });
+        await runBatch(output);
+      }
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.acceptAllBatchSites', async () => {
+      for (const site of batchStore?.get()?.sites.filter((entry) => entry.status === 'proposed') ?? []) {
+        await batchStore?.updateSite(site.id, { status: 'accepted' });
+      }
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.applyBatch', async () => {
+      await applyBatch(output);
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.discardBatch', async () => {
+      await batchStore?.save(undefined);
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.clearResponseCache', async () => {
+      const removed = await cacheFor(readConfiguration(), true)?.clear();
+      vscode.window.showInformationMessage(`Removed ${removed ?? 0} cached DeepSeek response(s).`);
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.exportCachedResponse', async () => {
+      await exportCachedResponse();
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.rollback', async (item?: HistoryItem) => {
+      const record = item?.record ?? (await pickHistoryRecord());
+      if (record) {
+        await performRollback(record);
+      }
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.openHistoryEntry', async (item?: HistoryItem) => {
+      if (item) {
+        await openHistoryRecord(item.record);
+      }
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.clearHistory', async () => {
+      await history?.clear();
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.acceptProposal', async (uri?: vscode.Uri) => {
+      const target = uri ?? activeProposalUri();
+      if (target) {
+        await proposals?.accept(target);
+      }
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.rejectProposal', async (uri?: vscode.Uri) => {
+      const target = uri ?? activeProposalUri();
+      if (target) {
+        await proposals?.reject(target);
+      }
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.acceptProposalPartially', async (uri?: vscode.Uri) => {
+      const target = uri ?? activeProposalUri();
+      const editor = vscode.window.activeTextEditor;
+      const selections =
+        editor && editor.document.uri.toString() === target?.toString() ? editor.selections : [];
+      if (target && !(await proposals?.acceptPartially(target, selections))) {
+        vscode.window.showInformationMessage(
+          'Select the proposed lines to keep in the right-hand side of the diff, then run Accept Partially again.'
+        );
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.languages.registerCodeActionsProvider({ language: 'csharp' }, new AssistCodeActionProvider(), {
+      providedCodeActionKinds: AssistCodeActionProvider.providedCodeActionKinds
+    }),
+    vscode.commands.registerCommand(IMPLEMENT_METHOD_COMMAND, async (uri?: vscode.Uri, position?: vscode.Position) => {
+      await handleImplementMethod(output, uri, position);
+    }),
+    vscode.commands.registerCommand(GENERATE_TESTS_COMMAND, async (uri?: vscode.Uri, position?: vscode.Position) => {
+      await handleGenerateTests(output, uri, position);
+    }),
+    vscode.commands.registerCommand(EXPLAIN_CODE_COMMAND, async (uri?: vscode.Uri, range?: vscode.Range) => {
+      await handleExplainCode(output, uri, range);
+    }),
+    vscode.commands.registerCommand(
+      FIX_FAILING_TEST_COMMAND,
+      async (uri?: vscode.Uri, diagnostic?: vscode.Diagnostic) => {
+        await handleFixFailingTest(output, uri, diagnostic);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.languages.registerInlineCompletionItemProvider(
+      { language: 'csharp' },
+      new InlineCompletionProvider(() => {
+        const config = readConfiguration();
+        return {
+          enabled: config.inlineCompletionsEnabled,
+          debounceMs: config.inlineDebounceMs,
+          createClient: () =>
+            createClient(config, output, 'inline', { stream: false, maxTokens: config.inlineMaxTokens })
+        };
+      }, output)
+    )
+  );
+
+  const statusBar = new EndpointStatusBar('deepseekCSharp.selectEndpoint');
+  statusBar.update(readConfiguration().endpoint);
+  usageTracker = new UsageTracker(context.globalState);
+  const tracker = usageTracker;
+  const usageStatusBar = new UsageStatusBar('deepseekCSharp.showUsageReport');
+  const updateUsage = () => usageStatusBar.update(tracker.totals(), readConfiguration().dailyBudget);
+  updateUsage();
+  context.subscriptions.push(
+    statusBar,
+    tracker,
+    usageStatusBar,
+    new UsageReportProvider(tracker),
+    tracker.onDidChange(updateUsage),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('deepseekCSharp.assistant')) {
+        statusBar.update(readConfiguration().endpoint);
+        updateUsage();
+      }
+      if (event.affectsConfiguration('deepseekCSharp.assistant.redaction.patterns')) {
+        reportInvalidRedactionPatterns();
+      }
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.showUsageReport', async () => {
+      await vscode.commands.executeCommand('markdown.showPreview', USAGE_REPORT_URI);
+    }),
+    vscode.commands.registerCommand('deepseekCSharp.clearUsage', async () => {
+      const choice = await vscode.window.showWarningMessage(
+        'Clear all recorded DeepSeek token usage?',
+        { modal: true },
+        'Clear'
+      );
+      if (choice === 'Clear') {
+        await tracker.clear();
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.workspace.onDidSaveTextDocument(async (document) => {
+      const config = readConfiguration(document.uri);
+      if (!config.runTestsOnSave || document.languageId !== 'csharp') {
+        return;
+      }
+
+      saveTestRun?.cancel();
+      const source = new vscode.CancellationTokenSource();
+      saveTestRun = source;
+      try {
+        if (await delay(config.runTestsOnSaveDebounceMs, source.token)) {
+          await executeTests(config, output, `Save: ${path.basename(document.uri.fsPath)}`, {
+            token: source.token,
+            scope: document.uri
+          });
+        }
+      } finally {
+        if (saveTestRun === source) {
+          saveTestRun = undefined;
+        }
+        source.dispose();
+      }
+    }),
+    { dispose: () => saveTestRun?.cancel() }
+  );
+
+  const interrupted = unfinishedSites(batchStore.get());
+  if (interrupted.length > 0) {
+    void vscode.window
+      .showInformationMessage(
+        `A DeepSeek batch was interrupted with ${interrupted.length} site(s) left to generate.`,
+        'Resume',
+        'Discard'
+      )
+      .then((choice) => {
+        if (choice === 'Resume') {
+          void runBatch(output);
+        } else if (choice === 'Discard') {
+          void batchStore?.save(undefined);
+        }
+      });
+  }
+
+  reportInvalidRedactionPatterns();
+  apiKeys.migrateFromSettings().catch((err) => {
+    output.appendLine(`[DeepSeek] Failed to migrate API key from settings: ${(err as Error).message}`);
+  });
+}
+
+export function deactivate(): void {
+  diagnostics?.dispose();
+}
+
+async function handleAssistCommand(output: vscode.OutputChannel): Promise<void> {
+  const editor = activeCSharpEditor();
+  if (!editor) {
+    return;
+  }
+
+  const { document, selection } = editor;
+  if (await excludedFromContext(document.uri)) {
+    return;
+  }
+  const config = readConfiguration(document.uri);
+  const panel = openAssistPanel();
+
+  const codeContext = await buildCodeContext(document, selection, {
+    contextLines: config.contextLines,
+    maxRelatedTypes: config.maxRelatedTypes
+  });
+  const target: GenerationTarget = {
+    document,
+    range: new vscode.Range(selection.start, selection.end),
+    indentation: insertionIndentation(document, selection.start)
+  };
+  const { prompt, budget } = await buildPrompt(codeContext, config, {
+    suffix: structuredEditFormat(config, target)
+  });
+
+  await runGeneration(target, {
+    client: createClient(config, output, 'assist'),
+    config,
+    output,
+    panel,
+    prompt,
+    budget
+  });
+}
+
+async function handleImplementMethod(
+  output: vscode.OutputChannel,
+  uri?: vscode.Uri,
+  position?: vscode.Position
+): Promise<void> {
+  const target = await resolveMemberTarget(uri, position);
+  if (!target) {
+    return;
+  }
+
+  const config = readConfiguration(target.document.uri);
+  const panel = openAssistPanel();
+  const generationTarget = memberGenerationTarget(target.document, target.member);
+  const { prompt, budget } = await buildMemberPrompt(target.document, target.member, config, {
+    template: IMPLEMENT_TEMPLATE,
+    suffix: structuredEditFormat(config, generationTarget)
+  });
+
+  await runGeneration(generationTarget, {
+    client: createClient(config, output, 'implementMethod'),
+    config,
+    output,
+    panel,
+    prompt,
+    budget
+  });
+}
+
+async function handleFixFailingTest(
+  output: vscode.OutputChannel,
+  uri?: vscode.Uri,
+  diagnostic?: vscode.Diagnostic
+): Promise<void> {
+  const target = await resolveMemberTarget(uri, diagnostic?.range.start);
+  if (!target) {
+    return;
+  }
+
+  const failure =
+    diagnostic?.message ??
+    diagnostics
+      ?.get(target.document.uri)
+      ?.filter((entry) => entry.range.intersection(target.member.range))
+      .map((entry) => entry.message)
+      .join('\n\n');
+  if (!failure) {
+    vscode.window.showInformationMessage('No failing test is reported for this member.');
+    return;
+  }
+
+  const config = readConfiguration(target.document.uri);
+  const panel = openAssistPanel();
+  const generationTarget = memberGenerationTarget(target.document, target.member);
+  const { prompt, budget } = await buildMemberPrompt(target.document, target.member, config, {
+    template: FIX_TEST_TEMPLATE,
+    values: { FAILURE: failure },
+    suffix: structuredEditFormat(config, generationTarget)
+  });
+
+  await runGeneration(generationTarget, {
+    client: createClient(config, output, 'fixFailingTest'),
+    config,
+    output,
+    panel,
+    prompt,
+    budget
+  });
+}
+
+async function handleGenerateTests(
+  output: vscode.OutputChannel,
+  uri?: vscode.Uri,
+  position?: vscode.Position
+): Promise<void> {
+  const target = await resolveMemberTarget(uri, position);
+  if (!target) {
+    return;
+  }
+
+  const project = await pickTestProject(target.document);
+  if (!project) {
+    return;
+  }
+
+  const config = readConfiguration(target.document.uri);
+  const codeContext = await buildCodeContext(target.document, selectionFor(target.member), {
+    contextLines: config.contextLines,
+    maxRelatedTypes: config.maxRelatedTypes
+  });
+  const testClass = `${codeContext.className ?? path.basename(target.document.uri.fsPath, '.cs')}Tests`;
+  const testFile = await findTestFile(project, testClass);
+  const framework = project.framework ?? 'xunit';
+
+  let generationTarget: GenerationTarget;
+  let frameworkValues: Record<string, string>;
+  if (testFile) {
+    const document = await vscode.workspace.openTextDocument(testFile);
+    const testType = await findTypeSymbol(document, testClass);
+    if (!testType) {
+      vscode.window.showWarningMessage(`Could not find the test class ${testClass} in ${testFile.fsPath}.`);
+      return;
+    }
+    const classIndentation = insertionIndentation(document, testType.range.start);
+    const indentation = classIndentation + (classIndentation.includes('\t') ? '\t' : '    ');
+    generationTarget = {
+      document,
+      range: new vscode.Range(testType.range.end.line, 0, testType.range.end.line, 0),
+      indentation,
+      wrap: (code) => `\n${indentation}${code}\n`
+    };
+    frameworkValues = testFrameworkValues(framework, testClass, { append: true });
+  } else {
+    const document = await createTestFile(vscode.Uri.file(path.join(project.directory, `${testClass}.cs`)));
+    if (!document) {
+      return;
+    }
+    generationTarget = { document, range: new vscode.Range(0, 0, 0, 0), indentation: '', discardOnReject: true };
+    frameworkValues = testFrameworkValues(framework, testClass, { append: false, namespace: project.name });
+  }
+
+  const panel = openAssistPanel();
+  const { prompt, budget } = await buildPrompt(codeContext, config, {
+    template: GENERATE_TESTS_TEMPLATE,
+    values: { TEST_CLASS: testClass, ...frameworkValues },
+    suffix: structuredEditFormat(config, generationTarget)
+  });
+
+  await runGeneration(generationTarget, {
+    client: createClient(config, output, 'generateTests'),
+    config,
+    output,
+    panel,
+    prompt,
+    budget
+  });
+}
+
+async function handleExplainCode(
+  output: vscode.OutputChannel,
+  uri?: vscode.Uri,
+  range?: vscode.Range
+): Promise<void> {
+  const editor = activeCSharpEditor();
+  const document = uri ? await vscode.workspace.openTextDocument(uri) : editor?.document;
+  if (!document || (await excludedFromContext(document.uri))) {
+    return;
+  }
+
+  let selection = range ? new vscode.Selection(range.start, range.end) : editor?.selection;
+  if (!selection) {
+    return;
+  }
+  if (selection.isEmpty) {
+    const member = await findEnclosingMember(document, selection.start);
+    const line = document.lineAt(selection.start.line).range;
+    selection = member ? selectionFor(member) : new vscode.Selection(line.start, line.end);
+  }
+
+  const config = readConfiguration(document.uri);
+  const panel = openAssistPanel();
+  const codeContext = await buildCodeContext(document, selection, {
+    contextLines: config.contextLines,
+    maxRelatedTypes: config.maxRelatedTypes
+  });
+  const { prompt, budget } = await buildPrompt(codeContext, config, { template: EXPLAIN_TEMPLATE, values: {} });
+
+  chat = {
+    session: { client: createClient(config, output, 'explainCode'), config, output, panel, prompt, budget },
+    messages: []
+  };
+  await requestChatResponse(chat, prompt);
+}
+
+async function runGeneration(target: GenerationTarget, session: GenerationSession): Promise<void> {
+  const current: ChatSession = { session, target, messages: [] };
+  chat = current;
+  if (!(await requestChatResponse(current, session.prompt)) || !(await insertChatCode(current))) {
+    if (target.discardOnReject) {
+      // The file created for this generation is gone, so there is nothing left to insert into.
+      chat = undefined;
+      session.panel.setActions([]);
+    }
+    await discardTarget(target);
+  }
+}
+
+// The format follows the task prompt; a response that ignores it still falls back to a single insertion.
+function structuredEditFormat(config: AssistantConfiguration, target: GenerationTarget): string | undefined {
+  if (!config.structuredEdits) {
+    return undefined;
+  }
+  const { start, end } = target.range;
+  return fillTemplate(STRUCTURED_EDITS_TEMPLATE, {
+    TARGET_FILE: vscode.workspace.asRelativePath(target.document.uri, false),
+    TARGET_LOCATION: target.range.isEmpty
+      ? `line ${start.line + 1} (insertion point)`
+      : `lines ${start.line + 1}-${end.line + 1}`
+  });
+}
+
+// Sends one turn of the conversation; code sessions keep the normalized code for a later Insert.
+async function requestChatResponse(current: ChatSession, question: string, bypassCache = false): Promise<boolean> {
+  const { client, config, panel, prompt } = current.session;
+  const target = current.target;
+  const noun = target ? 'code' : 'explanation';
+
+  const turns = fitHistory(config, current.messages, question);
+  const budget =
+    turns.length === 0
+      ? current.session.budget
+      : requestBudget(config, [...turns, { role: 'user', content: question }]);
+
+  current.busy = true;
+  panel.setActions([]);
+  panel.setBudget(budget);
+  panel.update({ status: `Requesting ${noun} from DeepSeek...`, promptPreview: prompt });
+  const renderPartial = throttle((content: string) => {
+    panel.update({
+      status: `Receiving ${noun} from DeepSeek...`,
+      promptPreview: prompt,
+      ...(target ? { generation: content } : { explanation: content })
+    });
+  }, STREAM_RENDER_INTERVAL_MS);
+
+  let response: string;
+  try {
+    const result = await withCancellableProgress(
+      target ? 'DeepSeek: generating code' : 'DeepSeek: explaining code',
+      undefined,
+      (token) =>
+        client.generate(question, {
+          onPartial: config.stream ? renderPartial : undefined,
+          token,
+          history: turns,
+          maxTokens: budget.maxTokens,
+          bypassCache
+        })
+    );
+    renderPartial.cancel();
+    response = result.content;
+  } catch (err) {
+    renderPartial.cancel();
+    if (err instanceof vscode.CancellationError) {
+      panel.update({ status: 'Request cancelled', promptPreview: prompt, generation: current.code });
+    } else {
+      void showRequestError(err);
+      panel.update({
+        status: 'LLM request failed',
+        promptPreview: prompt,
+        generation: current.code,
+        error: (err as Error).message ?? String(err)
+      });
+    }
+    current.busy = false;
+    updateChatActions(current);
+    return false;
+  }
+
+  current.messages = [
+    ...current.messages,
+    { role: 'user', content: question },
+    { role: 'assistant', content: response }
+  ];
+  // The first user turn is the full prompt, which the panel already shows as the prompt preview.
+  panel.setConversation(current.messages.slice(1) as ChatTurn[]);
+
+  current.edits = target && config.structuredEdits ? parseStructuredEdits(response) : undefined;
+  if (current.edits) {
+    current.code = describeStructuredEdits(current.edits.edits);
+    current.looksLikeCSharp = true;
+    panel.update({
+      status: `Review ${current.edits.edits.length} structured edit(s)`,
+      promptPreview: prompt,
+      generation: current.code,
+      warnings: current.edits.errors
+    });
+  } else if (target) {
+    const normalized = normalizeResponse(response, target.indentation);
+    current.code = normalized.code || '// No content returned from LLM';
+    current.looksLikeCSharp = normalized.looksLikeCSharp;
+    const warnings = config.structuredEdits
+      ? ['The response is not in the structured edit format; falling back to a single insertion.']
+      : [];
+    panel.update({
+      status: normalized.looksLikeCSharp ? 'Review generated code' : 'Response does not look like C#',
+      promptPreview: prompt,
+      generation: current.code,
+      warnings: [...warnings, ...normalized.warnings]
+    });
+  } else {
+    panel.update({ status: 'Explanation ready', promptPreview: prompt, explanation: response.trim() });
+  }
+  current.busy = false;
+  updateChatActions(current);
+  return true;
+}
+
+// Returns false when the code was not inserted, so callers can clean up a file created for it.
+async function insertChatCode(current: ChatSession): Promise<boolean> {
+  const { config, output, panel, prompt, budget } = current.session;
+  const target = current.target;
+  if (!target || current.code === undefined) {
+    return false;
+  }
+  const { document, range } = target;
+  let generated = current.code;
+
+  if (!current.looksLikeCSharp) {
+    const choice = await vscode.window.showWarningMessage(
+      'The DeepSeek response does not look like C# code.',
+      'Review Anyway',
+      'Discard'
+    );
+    if (choice !== 'Review Anyway') {
+      return false;
+    }
+  }
+
+  const placeholders = findPlaceholders(generated);
+  if (placeholders.length > 0) {
+    const choice = await vscode.window.showWarningMessage(
+      `The generated code contains redacted values (${placeholders.join(', ')}). ` +
+        'Replace them with the real values after inserting.',
+      'Review Anyway',
+      'Discard'
+    );
+    if (choice !== 'Review Anyway') {
+      return false;
+    }
+  }
+
+  if (current.edits) {
+    return applyStructuredEdits(current, current.edits);
+  }
+
+  current.busy = true;
+  panel.setActions([]);
+  try {
+    const decision = await proposals?.show(document, range, target.wrap ? target.wrap(generated) : generated);
+    if (decision?.kind !== 'accept') {
+      panel.update({
+        status: 'Generation rejected',
+        promptPreview: prompt,
+        generation: generated
+      });
+      return false;
+    }
+    generated = decision.content;
+
+    const applied = await applyGeneratedCode(document, range, generated);
+    vscode.window.showInformationMessage('Inserted generated code.');
+
+    // Follow-up inserts replace the previous one, which also makes the file no longer disposable.
+    target.range = applied.insertedRange;
+    target.discardOnReject = false;
+    const record = await history?.add({
+      fileUri: document.uri.toString(),
+      originalRange: serializeRange(applied.originalRange),
+      originalText: applied.originalText,
+      insertedRange: serializeRange(applied.insertedRange),
+      insertedText: generated,
+      prompt,
+      model: config.endpoint.model
+    });
+    current.recordIds = record ? [record.id] : [];
+
+    let inserted: Insertion = { document, range: applied.insertedRange, code: generated };
+    if (config.validateBuild) {
+      const validation = await runBuildValidation(inserted, current.session);
+      inserted = validation.insertion;
+      updateTargetRange(target, inserted.range);
+      if (!validation.success) {
+        if (record) {
+          await history?.update(record.id, {
+            insertedRange: serializeRange(inserted.range),
+            insertedText: inserted.code
+          });
+          await offerRollback([record.id], 'The generated code does not compile. Tests were skipped.');
+        }
+        return true;
+      }
+      if (record && inserted.code !== generated) {
+        await history?.update(record.id, {
+          insertedRange: serializeRange(inserted.range),
+          insertedText: inserted.code
+        });
+      }
+      generated = inserted.code;
+    }
+
+    if (config.autoRunTests) {
+      const result = await executeTests(config, output, 'Generation', { scope: document.uri });
+      panel.update({
+        status: 'Test run completed',
+        promptPreview: prompt,
+        generation: generated,
+        testResult: result
+      });
+
+      let final: Insertion = { ...inserted, testResult: result };
+      if (config.autoFixFailingTests && isRepairable(result)) {
+        final = await runRepairLoop(final, current.session);
+        updateTargetRange(target, final.range);
+      }
+
+      if (record) {
+        await history?.update(record.id, {
+          insertedRange: serializeRange(final.range),
+          insertedText: final.code,
+          testResult: final.testResult
+        });
+        if (isRepairable(final.testResult)) {
+          await offerRollback([record.id], 'Tests failed after inserting generated code.');
+        }
+      }
+    }
+    return true;
+  } finally {
+    current.busy = false;
+    updateChatActions(current);
+  }
+}
+
+// The compile-fix and repair loops only know how to rewrite a single range, so multi-file edits skip them
+// and say so when the build or the tests fail.
+async function applyStructuredEdits(current: ChatSession, parsed: ParsedEdits): Promise<boolean> {
+  const { config, output, panel, prompt } = current.session;
+  const target = current.target;
+  if (!target) {
+    return false;
+  }
+
+  const planned = await planStructuredEdits(parsed.edits, target.document.uri);
+  const errors = [...parsed.errors, ...planned.errors];
+  if (errors.length > 0 || planned.plans.length === 0) {
+    panel.update({
+      status: 'Structured edits cannot be applied',
+      promptPreview: prompt,
+      generation: current.code,
+      warnings: errors.length > 0 ? errors : ['The edits do not change any file.']
+    });
+    vscode.window.showWarningMessage(
+      'DeepSeek returned edits that do not match the workspace. Retry or ask a follow-up to correct them.'
+    );
+    return false;
+  }
+
+  current.busy = true;
+  panel.setActions([]);
+  try {
+    const accepted = await editPreview?.review(planned.plans);
+    if (!accepted || accepted.length === 0) {
+      panel.update({ status: 'Generation rejected', promptPreview: prompt, generation: current.code });
+      return false;
+    }
+    if (!(await vscode.workspace.applyEdit(buildWorkspaceEdit(accepted)))) {
+      vscode.window.showErrorMessage('Could not apply the DeepSeek edits.');
+      return false;
+    }
+
+    const recordIds: string[] = [];
+    for (const plan of accepted) {
+      const document = await vscode.workspace.openTextDocument(plan.uri);
+      await document.save();
+      const record = await history?.add(editRecord(plan, prompt, config.endpoint.model));
+      if (record) {
+        recordIds.push(record.id);
+      }
+    }
+    current.recordIds = recordIds;
+    // A test file created for this generation stays only if the edits wrote to it.
+    await discardTarget(target);
+    target.discardOnReject = false;
+    target.range = target.document.validateRange(target.range);
+    const files = accepted.map((plan) => vscode.workspace.asRelativePath(plan.uri)).join(', ');
+    output.appendLine(`[DeepSeek] Applied structured edits to ${files}`);
+    vscode.window.showInformationMessage(`Applied DeepSeek edits to ${accepted.length} file(s).`);
+
+    if (config.validateBuild) {
+      const result = await executeBuild(config, output, target.document);
+      const buildErrors = result?.errors.map(formatCompilerMessage) ?? [];
+      panel.update({
+        status: !result
+          ? 'Build check skipped'
+          : result.success
+            ? 'Build succeeded'
+            : `Build failed with ${buildErrors.length} error(s)`,
+        promptPreview: prompt,
+        generation: current.code,
+        buildErrors
+      });
+      if (result && !result.success) {
+        await offerRollback(
+          recordIds,
+          'The edited code does not compile. Multi-file edits are not fixed automatically, and tests were skipped.'
+        );
+        return true;
+      }
+    }
+
+    if (config.autoRunTests) {
+      const result = await executeTests(config, output, 'Generation', { scope: target.document.uri });
+      panel.update({
+        status: 'Test run completed',
+        promptPreview: prompt,
+        generation: current.code,
+        testResult: result
+      });
+      for (const id of recordIds) {
+        await history?.update(id, { testResult: result });
+      }
+      if (isRepairable(result)) {
+        await offerRollback(
+          recordIds,
+          config.autoFixFailingTests
+            ? 'Tests failed after applying the DeepSeek edits. Automatic repair does not run for multi-file edits.'
+            : 'Tests failed after applying the DeepSeek edits.'
+        );
+      }
+    }
+    return true;
+  } finally {
+    current.busy = false;
+    updateChatActions(current);
+  }
+}
+
+function editRecord(plan: FileEditPlan, prompt: string, model: string): Omit<GenerationRecord, 'id' | 'timestamp'> {
+  const start = plan.range.start;
+  return {
+    fileUri: plan.uri.toString(),
+    originalRange: serializeRange(plan.range),
+    originalText: plan.replaced,
+    insertedRange: serializeRange(rangeForInsertedText(start, plan.text)),
+    insertedText: plan.text,
+    prompt,
+    model
+  };
+}
+
+async function handleBatchCommand(output: vscode.OutputChannel): Promise<void> {
+  if (!batchStore) {
+    return;
+  }
+  const existing = batchStore.get();
+  if (existing && existing.sites.some((site) => site.status !== 'rejected')) {
+    const choice = await vscode.window.showWarningMessage(
+      'A DeepSeek batch is already in progress.',
+      unfinishedSites(existing).length > 0 ? 'Resume' : 'Review',
+      'Start New Scan'
+    );
+    if (choice === 'Resume') {
+      await runBatch(output);
+      return;
+    }
+    if (choice === 'Review') {
+      await vscode.commands.executeCommand('deepseekCSharp.batch.focus');
+    }
+    if (choice !== 'Start New Scan') {
+      return;
+    }
+  }
+
+  const projects = await vscode.workspace.findFiles('**/*.csproj', '**/{bin,obj,node_modules}/**');
+  const choices: Array<vscode.QuickPickItem & { scope?: vscode.Uri }> = [
+    { label: 'Entire workspace' },
+    ...projects.map((uri) => ({
+      label: path.basename(uri.fsPath, '.csproj'),
+      description: vscode.workspace.asRelativePath(uri),
+      scope: vscode.Uri.file(path.dirname(uri.fsPath))
+    }))
+  ];
+  const picked = await vscode.window.showQuickPick(choices, {
+    placeHolder: 'Implement NotImplementedException stubs and TODO: deepseek markers in'
+  });
+  if (!picked) {
+    return;
+  }
+
+  const sites = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'DeepSeek: scanning for stubs and TODO markers' },
+    () => scanBatchSites(picked.scope)
+  );
+  if (sites.length === 0) {
+    vscode.window.showInformationMessage('No NotImplementedException stubs or "// TODO: deepseek" markers found.');
+    return;
+  }
+
+  await batchStore.save({ startedAt: Date.now(), scope: picked.scope?.toString(), sites });
+  await vscode.commands.executeCommand('deepseekCSharp.batch.focus');
+  await runBatch(output);
+}
+
+// Generation state is saved per site, so a reload resumes with the sites that never got a proposal.
+// Workers pick the next unclaimed site from the store, so sites queued during a run are picked up too.
+async function runBatch(output: vscode.OutputChannel): Promise<void> {
+  if (batchRunning || unfinishedSites(batchStore?.get()).length === 0) {
+    return;
+  }
+
+  const config = readConfiguration();
+  const client = createClient(config, output, 'batch');
+  const claimed = new Set<string>();
+  const next = () => unfinishedSites(batchStore?.get()).find((site) => !claimed.has(site.id));
+  let fatal: unknown;
+
+  batchRunning = true;
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'DeepSeek: batch generation', cancellable: true },
+      async (progress, token) => {
+        const worker = async () => {
+          for (let site = next(); site && !token.isCancellationRequested && !fatal; site = next()) {
+            claimed.add(site.id);
+            fatal = await generateBatchSite(site, config, client, output, token);
+            progress.report({ message: `${unfinishedSites(batchStore?.get()).length} site(s) left` });
+          }
+        };
+        await Promise.all(Array.from({ length: Math.max(1, config.maxConcurrentRequests || 1) }, worker));
+      }
+    );
+  } finally {
+    batchRunning = false;
+  }
+
+  if (fatal) {
+    void showRequestError(fatal);
+    return;
+  }
+  const sites = batchStore?.get()?.sites ?? [];
+  const proposed = sites.filter((site) => site.status === 'proposed').length;
+  const failed = sites.filter((site) => site.status === 'failed').length;
+  vscode.window.showInformationMessage(
+    `DeepSeek batch: ${proposed} proposal(s) ready for review${failed > 0 ? `, ${failed} failed` : ''}.`
+  );
+}
+
+// Returns an error that should stop the whole batch, such as a missing API key.
+async function generateBatchSite(
+  site: BatchSite,
+  config: AssistantConfiguration,
+  client: LlmClient,
+  output: vscode.OutputChannel,
+  token: vscode.CancellationToken
+): Promise<unknown> {
+  await batchStore?.updateSite(site.id, { status: 'generating', error: undefined });
+  try {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(site.fileUri));
+    const range = deserializeRange(site.range);
+    if (document.getText(range) !== site.originalText) {
+      throw new Error('The code changed since the workspace was scanned.');
+    }
+
+    const codeContext = await buildCodeContext(document, new vscode.Selection(range.start, range.end), {
+      contextLines: config.contextLines,
+      maxRelatedTypes: config.maxRelatedTypes
+    });
+    const { prompt, budget } = await buildPrompt(
+      codeContext,
+      config,
+      site.kind === 'todo'
+        ? { template: TODO_TEMPLATE, values: { INSTRUCTION: site.instruction || DEFAULT_TODO_INSTRUCTION } }
+        : { template: IMPLEMENT_TEMPLATE, values: {} }
+    );
+    const result = await client.generate(prompt, { token, maxTokens: budget.maxTokens });
+    const code = normalizeResponse(result.content, insertionIndentation(document, range.start)).code;
+    if (!code.trim()) {
+      throw new Error('LLM returned no content');
+    }
+    await batchStore?.updateSite(site.id, { status: 'proposed', code });
+    return undefined;
+  } catch (err) {
+    if (
+      err instanceof vscode.CancellationError ||
+      err instanceof MissingApiKeyError ||
+      err instanceof BudgetExceededError
+    ) {
+      await batchStore?.updateSite(site.id, { status: 'pending' });
+      return err instanceof vscode.CancellationError ? undefined : err;
+    }
+    const message = (err as Error).message ?? String(err);
+    output.appendLine(`[DeepSeek] Batch generation for ${site.label} failed: ${message}`);
+    await batchStore?.updateSite(site.id, { status: 'failed', error: message });
+    return undefined;
+  }
+}
+
+async function applyBatch(output: vscode.OutputChannel): Promise<void> {
+  const batch = batchStore?.get();
+  if (!batch || !batch.sites.some((site) => site.status === 'accepted')) {
+    vscode.window.showInformationMessage('Accept at least one batch proposal before applying.');
+    return;
+  }
+
+  const redacted = batch.sites.filter(
+    (site) => site.status === 'accepted' && findPlaceholders(site.code ?? '').length > 0
+  );
+  if (redacted.length > 0) {
+    const choice = await vscode.window.showWarningMessage(
+      `${redacted.length} accepted proposal(s) contain redacted values that must be replaced after applying: ` +
+        redacted.map((site) => site.label).join(', '),
+      { modal: true },
+      'Apply Anyway'
+    );
+    if (choice !== 'Apply Anyway') {
+      return;
+    }
+  }
+
+  const config = readConfiguration();
+  const { applied, stale } = await applyAcceptedSites(batch.sites);
+  if (stale.length > 0) {
+    const labels = stale.map((site) => site.label).join(', ');
+    vscode.window.showWarningMessage(
+      `Skipped ${stale.length} proposal(s) whose code changed since the scan: ${labels}.`
+    );
+  }
+  if (applied.length === 0) {
+    return;
+  }
+
+  for (const entry of applied) {
+    await history?.add({
+      fileUri: entry.site.fileUri,
+      originalRange: serializeRange(entry.originalRange),
+      originalText: entry.site.originalText,
+      insertedRange: serializeRange(entry.insertedRange),
+      insertedText: entry.site.code ?? '',
+      prompt: `Batch: ${entry.site.label}`,
+      model: config.endpoint.model
+    });
+  }
+  const appliedIds = new Set(applied.map((entry) => entry.site.id));
+  const remaining = batch.sites.filter((site) => !appliedIds.has(site.id) && site.status !== 'rejected');
+  await batchStore?.save(remaining.length > 0 ? { ...batch, sites: remaining } : undefined);
+  vscode.window.showInformationMessage(`Applied ${applied.length} batch proposal(s).`);
+
+  if (config.autoRunTests) {
+    // A workspace-wide batch runs every test; a project batch runs the tests for each file it changed.
+    const documents = new Map(applied.map((entry) => [entry.document.uri.toString(), entry.document.uri]));
+    await executeTests(config, output, 'Batch', { scope: batch.scope ? [...documents.values()] : undefined });
+  }
+}
+
+function unfinishedSites(batch: { sites: BatchSite[] } | undefined): BatchSite[] {
+  return batch?.sites.filter((site) => site.status === 'pending' || site.status === 'generating') ?? [];
+}
+
+async function handlePanelMessage(message: PanelMessage): Promise<void> {
+  const current = chat;
+  if (!current || current.busy) {
+    return;
+  }
+  const { config, output, panel, prompt, budget } = current.session;
+
+  if (message.type === 'ask') {
+    const question = current.target
+      ? `${message.text}\n\nReturn only the complete updated C# code.`
+      : message.text;
+    await requestChatResponse(current, question);
+    return;
+  }
+
+  switch (message.action) {
+    case 'insert':
+      await insertChatCode(current);
+      break;
+    case 'retry': {
+      const messages = current.messages;
+      if (messages.length < 2) {
+        break;
+      }
+      current.messages = messages.slice(0, -2);
+      if (!(await requestChatResponse(current, messages[messages.length - 2].content, true))) {
+        current.messages = messages;
+      }
+      break;
+    }
+    case 'copy': {
+      const latest = current.code ?? current.messages[current.messages.length - 1]?.content;
+      if (latest) {
+        await vscode.env.clipboard.writeText(latest);
+        vscode.window.showInformationMessage('Copied the latest DeepSeek response to the clipboard.');
+      }
+      break;
+    }
+    case 'runTests': {
+      current.busy = true;
+      panel.setActions([]);
+      try {
+        const result = await executeTests(config, output, 'Chat panel', { scope: current.target?.document.uri });
+        panel.update({
+          status: 'Test run completed',
+          promptPreview: prompt,
+          generation: current.code,
+          testResult: result
+        });
+      } finally {
+        current.busy = false;
+        updateChatActions(current);
+      }
+      break;
+    }
+    case 'rollback': {
+      const records = (current.recordIds ?? []).map((id) => history?.get(id));
+      for (const record of records) {
+        if (record && !record.rolledBack) {
+          await performRollback(record);
+        }
+      }
+      updateChatActions(current);
+      break;
+    }
+  }
+}
+
+// Build and test repairs replace the unwrapped code, so the wrap no longer matches the range.
+function updateTargetRange(target: GenerationTarget, range: vscode.Range): void {
+  if (range !== target.range) {
+    target.range = range;
+    target.wrap = undefined;
+  }
+}
+
+function updateChatActions(current: ChatSession): void {
+  const actions: PanelAction[] = [];
+  if (current.target && current.code !== undefined) {
+    actions.push('insert');
+  }
+  if (current.messages.length >= 2) {
+    actions.push('retry', 'copy');
+  }
+  if (current.target) {
+    actions.push('runTests');
+  }
+  const records = (current.recordIds ?? []).map((id) => history?.get(id));
+  if (records.some((record) => record && !record.rolledBack)) {
+    actions.push('rollback');
+  }
+  current.session.panel.setActions(actions);
+}
+
+async function runBuildValidation(
+  insertion: Insertion,
+  session: GenerationSession
+): Promise<{ insertion: Insertion; success: boolean }> {
+  const { client, config, output, panel, prompt, budget } = session;
+  let current = insertion;
+
+  for (let attempt = 0; ; attempt += 1) {
+    const result = await executeBuild(config, output, current.document);
+    if (!result) {
+      return { insertion: current, success: true };
+    }
+
+    const errors = result.errors.map(formatCompilerMessage);
+    panel.update({
+      status: result.success ? 'Build succeeded' : `Build failed with ${errors.length} error(s)`,
+      promptPreview: prompt,
+      generation: current.code,
+      buildErrors: errors
+    });
+    if (result.success) {
+      return { insertion: current, success: true };
+    }
+    if (errors.length === 0 || attempt >= config.maxBuildFixAttempts) {
+      return { insertion: current, success: false };
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `The generated code does not compile (${errors.length} error(s)).`,
+      'Ask DeepSeek to Fix',
+      'Keep'
+    );
+    if (choice !== 'Ask DeepSeek to Fix') {
+      return { insertion: current, success: false };
+    }
+
+    const fixPrompt = buildCompileFixPrompt(current.code, errors);
+    const { maxTokens } = requestBudget(config, [{ role: 'user', content: fixPrompt }]);
+    let code: string;
+    try {
+      const response = await withCancellableProgress('DeepSeek: fixing compiler errors', undefined, (token) =>
+        client.generate(fixPrompt, { token, maxTokens })
+      );
+      code = normalizeResponse(response.content, insertionIndentation(current.document, current.range.start)).code;
+    } catch (err) {
+      if (!(err instanceof vscode.CancellationError)) {
+        void showRequestError(err);
+      }
+      return { insertion: current, success: false };
+    }
+    if (!code.trim()) {
+      return { insertion: current, success: false };
+    }
+
+    const range = await replaceRange(current.document, current.range, code);
+    current = { ...current, range, code };
+  }
+}
+
+interface GenerationTarget {
+  document: vscode.TextDocument;
+  range: vscode.Range;
+  indentation: string;
+  wrap?: (code: string) => string;
+  discardOnReject?: boolean;
+}
+
+interface MemberTarget {
+  document: vscode.TextDocument;
+  member: vscode.DocumentSymbol;
+}
+
+interface Insertion {
+  document: vscode.TextDocument;
+  range: vscode.Range;
+  code: string;
+  testResult?: TestRunResult;
+}
 
-  context.subscriptions.push(
-    vscode.commands.registerCommand('deepseekCSharp.assist', async () => {
-      await handleAssistCommand(output);
-    })
-  );
+interface AppliedGeneration {
+  originalRange: vscode.Range;
+  originalText: string;
+  insertedRange: vscode.Range;
+}
 
-  context.subscriptions.push(
-    vscode.workspace.onDidSaveTextDocument(async (document) => {
-      const config = readConfiguration();
-      if (!config.runTestsOnSave || document.languageId !== 'csharp') {
-        return;
-      }
-      await executeTests(config, output, `Save: ${path.basename(document.uri.fsPath)}`);
-    })
-  );
+interface GenerationSession {
+  client: LlmClient;
+  config: AssistantConfiguration;
+  output: vscode.OutputChannel;
+  panel: AssistPanel;
+  prompt: string;
+  budget: PromptBudget;
 }
 
-export function deactivate(): void {
-  diagnostics?.dispose();
+interface ChatSession {
+  session: GenerationSession;
+  // Explanation sessions have no target and never insert code.
+  target?: GenerationTarget;
+  messages: ChatMessage[];
+  code?: string;
+  looksLikeCSharp?: boolean;
+  // Set when the latest response used the structured edit format.
+  edits?: ParsedEdits;
+  recordIds?: string[];
+  busy?: boolean;
 }
 
-async function handleAssistCommand(output: vscode.OutputChannel): Promise<void> {
+function activeCSharpEditor(): vscode.TextEditor | undefined {
   const editor = vscode.window.activeTextEditor;
   if (!editor) {
     vscode.window.showWarningMessage('Open a C# file to use DeepSeek C# Assistant.');
-    return;
+    return undefined;
   }
-
-  const { document, selection } = editor;
-  if (document.languageId !== 'csharp') {
+  if (editor.document.languageId !== 'csharp') {
     vscode.window.showWarningMessage('DeepSeek C# Assistant only works with C# files.');
+    return undefined;
+  }
+  return editor;
+}
+
+function openAssistPanel(): AssistPanel {
+  assistPanel ??= new AssistPanel();
+  assistPanel.show();
+  assistPanel.setConversation([]);
+  assistPanel.setActions([]);
+  assistPanel.setBudget(undefined);
+  return assistPanel;
+}
+
+function selectionFor(symbol: vscode.DocumentSymbol): vscode.Selection {
+  return new vscode.Selection(symbol.range.start, symbol.range.end);
+}
+
+async function resolveMemberTarget(
+  uri: vscode.Uri | undefined,
+  position: vscode.Position | undefined
+): Promise<MemberTarget | undefined> {
+  let document: vscode.TextDocument;
+  if (uri && position) {
+    document = await vscode.workspace.openTextDocument(uri);
+  } else {
+    const editor = activeCSharpEditor();
+    if (!editor) {
+      return undefined;
+    }
+    document = editor.document;
+    position = editor.selection.active;
+  }
+  if (await excludedFromContext(document.uri)) {
+    return undefined;
+  }
+
+  const member = await findEnclosingMember(document, position);
+  if (!member) {
+    vscode.window.showWarningMessage('Place the cursor inside a C# method or property.');
+    return undefined;
+  }
+  return { document, member };
+}
+
+async function buildMemberPrompt(
+  document: vscode.TextDocument,
+  member: vscode.DocumentSymbol,
+  config: AssistantConfiguration,
+  action: PromptAction
+): Promise<PreparedPrompt> {
+  const codeContext = await buildCodeContext(document, selectionFor(member), {
+    contextLines: config.contextLines,
+    maxRelatedTypes: config.maxRelatedTypes
+  });
+  return buildPrompt(codeContext, config, action);
+}
+
+function memberGenerationTarget(document: vscode.TextDocument, member: vscode.DocumentSymbol): GenerationTarget {
+  return {
+    document,
+    range: member.range,
+    indentation: insertionIndentation(document, member.range.start)
+  };
+}
+
+async function pickTestProject(document: vscode.TextDocument): Promise<TestProject | undefined> {
+  const projects = await findTestProjects();
+  if (projects.length === 0) {
+    vscode.window.showWarningMessage('No test project (xUnit, NUnit or MSTest) was found in the workspace.');
+    return undefined;
+  }
+  if (projects.length === 1) {
+    return projects[0];
+  }
+
+  const owner = await findNearestProject(document.uri);
+  const related = owner ? await findRelatedTestProjects(owner) : [];
+  if (related.length === 1) {
+    return related[0];
+  }
+  const ownerName = owner ? path.basename(owner, '.csproj') : undefined;
+  const matching = projects.filter(
+    (project) => ownerName && /^(.*)\.(Unit)?Tests?$/i.exec(project.name)?.[1] === ownerName
+  );
+  if (matching.length === 1) {
+    return matching[0];
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    projects.map((project) => ({
+      label: project.name,
+      description: project.framework,
+      detail: vscode.workspace.asRelativePath(project.uri),
+      project
+    })),
+    { placeHolder: 'Select the test project to add the tests to' }
+  );
+  return picked?.project;
+}
+
+async function pinTestProject(): Promise<void> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const activeUri = vscode.window.activeTextEditor?.document.uri;
+  const folder =
+    (activeUri && vscode.workspace.getWorkspaceFolder(activeUri)) ??
+    (folders.length > 1
+      ? await vscode.window.showWorkspaceFolderPick({
+          placeHolder: 'Select the workspace folder to pin a test project for'
+        })
+      : folders[0]);
+  if (!folder) {
     return;
   }
 
-  const config = readConfiguration();
-  const panel = vscode.window.createWebviewPanel(
-    'deepseekCSharpAssistant',
-    'DeepSeek C# Assistant',
-    vscode.ViewColumn.Beside,
-    { enableScripts: true }
+  const projects = (await findTestProjects()).filter(
+    (project) => vscode.workspace.getWorkspaceFolder(project.uri)?.uri.toString() === folder.uri.toString()
   );
+  const pinned = readConfiguration(folder.uri).defaultTestProject;
+  const picked = await vscode.window.showQuickPick(
+    [
+      { label: 'Nearest test projects', description: 'Use the test projects that reference the edited project' },
+      ...projects.map((project) => ({
+        label: project.name,
+        description: project.framework,
+        detail: path.relative(folder.uri.fsPath, project.uri.fsPath),
+        project
+      }))
+    ].map((item) => ({
+      ...item,
+      picked: 'project' in item ? item.detail === pinned : !pinned
+    })),
+    { placeHolder: `Select the default test project for ${folder.name}` }
+  );
+  if (!picked) {
+    return;
+  }
+
+  const value = 'project' in picked ? picked.detail : undefined;
+  await vscode.workspace
+    .getConfiguration('deepseekCSharp.assistant', folder.uri)
+    .update('defaultTestProject', value, vscode.ConfigurationTarget.WorkspaceFolder);
+}
 
-  const contextSnippet = buildContextSnippet(document, selection, config.contextLines);
-  const prompt = await buildPrompt(contextSnippet, config);
+async function findTestFile(project: TestProject, testClass: string): Promise<vscode.Uri | undefined> {
+  const pattern = new vscode.RelativePattern(project.directory, `**/${testClass}.cs`);
+  const [file] = await vscode.workspace.findFiles(pattern, '**/{bin,obj}/**', 1);
+  return file;
+}
 
-  updateWebview(panel, {
-    status: 'Requesting code from DeepSeek...',
-    promptPreview: prompt
-  });
+async function createTestFile(uri: vscode.Uri): Promise<vscode.TextDocument | undefined> {
+  const edit = new vscode.WorkspaceEdit();
+  edit.createFile(uri, { ignoreIfExists: true });
+  if (!(await vscode.workspace.applyEdit(edit))) {
+    vscode.window.showErrorMessage(`Could not create ${uri.fsPath}.`);
+    return undefined;
+  }
+  return vscode.workspace.openTextDocument(uri);
+}
+
+async function discardTarget(target: GenerationTarget): Promise<void> {
+  if (target.discardOnReject && target.document.getText().length === 0) {
+    const edit = new vscode.WorkspaceEdit();
+    edit.deleteFile(target.document.uri, { ignoreIfNotExists: true });
+    await vscode.workspace.applyEdit(edit);
+  }
+}
+
+async function runRepairLoop(insertion: Insertion, session: GenerationSession): Promise<Insertion> {
+  const { client, config, output, panel, prompt, budget } = session;
+  const iterations: RepairIteration[] = [{ attempt: 0, code: insertion.code, testResult: insertion.testResult }];
+  let range = insertion.range;
+  let current = iterations[0];
+  let cancelled = false;
+
+  const render = (status: string, generation?: string) =>
+    panel.update({
+      status,
+      promptPreview: prompt,
+      generation: generation ?? current.code,
+      testResult: current.testResult,
+      iterations
+    });
 
-  const client = new LlmClient(
+  await vscode.window.withProgress(
     {
-      apiUrl: config.apiUrl,
-      apiKey: config.apiKey,
-      model: config.model,
-      timeoutMs: config.timeoutMs,
-      maxTokens: config.maxTokens,
-      temperature: config.temperature,
-      maxConcurrentRequests: config.maxConcurrentRequests,
-      useChatApi: config.useChatApi
+      location: vscode.ProgressLocation.Notification,
+      title: 'DeepSeek: fixing failing tests',
+      cancellable: true
     },
-    output
+    async (progress, token) => {
+      for (let attempt = 1; attempt <= config.maxFixAttempts; attempt += 1) {
+        if (token.isCancellationRequested) {
+          cancelled = true;
+          break;
+        }
+        if (!isRepairable(current.testResult)) {
+          break;
+        }
+
+        const status = `Repair attempt ${attempt} of ${config.maxFixAttempts}`;
+        progress.report({ message: status });
+        render(`${status}: requesting a fix...`);
+
+        const repairPrompt = buildRepairPrompt(current.code, current.testResult.failures);
+        const renderPartial = throttle(
+          (content: string) => render(`${status}: receiving fix...`, content),
+          STREAM_RENDER_INTERVAL_MS
+        );
+        let code: string;
+        try {
+          const result = await client.generate(repairPrompt, {
+            onPartial: config.stream ? renderPartial : undefined,
+            token,
+            maxTokens: requestBudget(config, [{ role: 'user', content: repairPrompt }]).maxTokens
+          });
+          code = normalizeResponse(result.content, insertionIndentation(insertion.document, range.start)).code;
+        } catch (err) {
+          if (err instanceof vscode.CancellationError) {
+            cancelled = true;
+            break;
+          }
+          const message = (err as Error).message ?? String(err);
+          iterations.push({ attempt, code: '', error: message });
+          output.appendLine(`[DeepSeek] Repair attempt ${attempt} failed: ${message}`);
+          break;
+        } finally {
+          renderPartial.cancel();
+        }
+
+        if (!code.trim()) {
+          iterations.push({ attempt, code, error: 'LLM returned no content' });
+          break;
+        }
+        if (token.isCancellationRequested) {
+          cancelled = true;
+          break;
+        }
+
+        range = await replaceRange(insertion.document, range, code);
+        render(`${status}: running tests...`, code);
+        const testResult = await executeTests(config, output, `Repair attempt ${attempt}`, {
+          token,
+          scope: insertion.document.uri
+        });
+        // The fix is already in the file; without a test result it is kept as an untested attempt.
+        current = { attempt, code, testResult };
+        iterations.push(current);
+        if (!testResult) {
+          cancelled = token.isCancellationRequested;
+          break;
+        }
+      }
+    }
   );
 
-  let generated: string;
-  try {
-    const result = await client.generate(prompt);
-    generated = result.content || '// No content returned from LLM';
-  } catch (err) {
-    const message = (err as Error).message ?? String(err);
+  if (cancelled) {
+    render('Repair loop cancelled');
+    output.appendLine(`[DeepSeek] Repair loop cancelled after ${current.attempt} attempt(s).`);
+    vscode.window.showInformationMessage('DeepSeek repair loop cancelled. The code in the file was kept.');
+    return { ...insertion, range, code: current.code, testResult: current.testResult };
+  }
+
+  if (current.testResult?.success) {
+    render(`Tests pass after ${current.attempt} repair attempt(s)`);
+    return { ...insertion, range, code: current.code, testResult: current.testResult };
+  }
+
+  render('Repair loop stopped with failing tests');
+  const candidates = iterations.filter((iteration) => !iteration.error);
+  const picked = await vscode.window.showQuickPick(
+    candidates.map((iteration) => ({
+      label: iteration.attempt === 0 ? 'Original generation' : `Repair attempt ${iteration.attempt}`,
+      description: describeIteration(iteration),
+      picked: iteration === current,
+      iteration
+    })),
+    { placeHolder: 'Tests still fail. Choose which iteration to keep in the file.' }
+  );
+
+  if (picked && picked.iteration !== current) {
+    range = await replaceRange(insertion.document, range, picked.iteration.code);
+    current = picked.iteration;
+    await publishDiagnostics(current.testResult);
+    render(`Kept ${picked.label.toLowerCase()}`);
+  }
+
+  return { ...insertion, range, code: current.code, testResult: current.testResult };
+}
+
+async function showRequestError(err: unknown): Promise<void> {
+  const message = (err as Error)?.message ?? String(err);
+  if (err instanceof BudgetExceededError) {
+    const choice = await vscode.window.showErrorMessage(message, 'Show Usage');
+    if (choice === 'Show Usage') {
+      await vscode.commands.executeCommand('deepseekCSharp.showUsageReport');
+    }
+    return;
+  }
+  if (!(err instanceof MissingApiKeyError)) {
     vscode.window.showErrorMessage(`DeepSeek request failed: ${message}`);
-    updateWebview(panel, {
-      status: 'LLM request failed',
-      promptPreview: prompt,
-      error: message
-    });
     return;
   }
+  const choice = await vscode.window.showErrorMessage(message, 'Set API Key');
+  if (choice === 'Set API Key') {
+    await vscode.commands.executeCommand(SET_API_KEY_COMMAND);
+  }
+}
 
-  updateWebview(panel, {
-    status: 'Review generated code',
-    promptPreview: prompt,
-    generation: generated
-  });
+async function pickEndpoint(
+  config: AssistantConfiguration,
+  placeHolder: string,
+  always = false
+): Promise<EndpointSettings | undefined> {
+  if (config.endpoints.length === 1 && !always) {
+    return config.endpoints[0];
+  }
+  const picked = await vscode.window.showQuickPick(
+    config.endpoints.map((endpoint) => ({
+      label: endpoint.name,
+      description: `${endpoint.provider} · ${endpoint.model}`,
+      detail: endpoint.apiUrl,
+      picked: endpoint.name === config.endpoint.name,
+      endpoint
+    })),
+    { placeHolder }
+  );
+  return picked?.endpoint;
+}
 
-  const previewDoc = await vscode.workspace.openTextDocument({ language: 'csharp', content: generated });
-  await vscode.window.showTextDocument(previewDoc, { preview: true });
+function activeProposalUri(): vscode.Uri | undefined {
+  const uri = vscode.window.activeTextEditor?.document.uri;
+  return uri?.scheme === PROPOSAL_SCHEME ? uri : undefined;
+}
 
-  const accept = await vscode.window.showInformationMessage(
-    'Insert generated code into the current document?',
-    { modal: true },
-    'Insert',
-    'Skip'
+async function offerRollback(recordIds: string[], message: string): Promise<void> {
+  const choice = await vscode.window.showWarningMessage(
+    message,
+    'Roll Back',
+    'Keep'
   );
-
-  if (accept !== 'Insert') {
+  if (choice !== 'Roll Back') {
     return;
   }
+  for (const record of recordIds.map((id) => history?.get(id))) {
+    if (record) {
+      await performRollback(record);
+    }
+  }
+}
 
-  await applyGeneratedCode(editor, generated);
-  vscode.window.showInformationMessage('Inserted generated code.');
-
-  if (config.autoRunTests) {
-    const result = await executeTests(config, output, 'Generation');
-    updateWebview(panel, {
-      status: 'Test run completed',
-      promptPreview: prompt,
-      generation: generated,
-      testResult: result
-    });
+async function performRollback(record: GenerationRecord): Promise<void> {
+  const outcome = await rollbackGeneration(record);
+  switch (outcome) {
+    case 'restored':
+      await history?.update(record.id, { rolledBack: true });
+      vscode.window.showInformationMessage('Rolled back generated code.');
+      break;
+    case 'alreadyRolledBack':
+      vscode.window.showInformationMessage('This generation has already been rolled back.');
+      break;
+    case 'notFound':
+      vscode.window.showErrorMessage(
+        'Could not roll back: the generated code was modified or removed since it was inserted.'
+      );
+      break;
   }
 }
 
-async function applyGeneratedCode(editor: vscode.TextEditor, content: string): Promise<void> {
-  const targetEditor = await vscode.window.showTextDocument(
-    editor.document,
-    editor.viewColumn ?? vscode.ViewColumn.One
+async function pickHistoryRecord(): Promise<GenerationRecord | undefined> {
+  const records = history?.list().filter((record) => !record.rolledBack) ?? [];
+  if (records.length === 0) {
+    vscode.window.showInformationMessage('No generations to roll back.');
+    return undefined;
+  }
+  const picked = await vscode.window.showQuickPick(
+    records.map((record) => ({
+      label: path.basename(vscode.Uri.parse(record.fileUri).fsPath),
+      description: new Date(record.timestamp).toLocaleString(),
+      detail: record.insertedText.split(/\r?\n/)[0],
+      record
+    })),
+    { placeHolder: 'Select a generation to roll back' }
   );
+  return picked?.record;
+}
+
+async function openHistoryRecord(record: GenerationRecord): Promise<void> {
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(record.fileUri));
+  const range = deserializeRange(record.rolledBack ? record.originalRange : record.insertedRange);
+  await vscode.window.showTextDocument(document, { selection: document.validateRange(range) });
+}
+
+function describeIteration(iteration: RepairIteration): string {
+  const summary = iteration.testResult?.summary;
+  if (!summary) {
+    return 'No test result';
+  }
+  return `Failed: ${summary.failed}, Passed: ${summary.passed}`;
+}
+
+async function replaceRange(document: vscode.TextDocument, range: vscode.Range, content: string): Promise<vscode.Range> {
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(document.uri, range, content);
+  await vscode.workspace.applyEdit(edit);
+  await document.save();
+  return rangeForInsertedText(range.start, content);
+}
+
+function insertionIndentation(document: vscode.TextDocument, position: vscode.Position): string {
+  return indentationAt(document.lineAt(position.line).text, position.character);
+}
+
+function rangeForInsertedText(start: vscode.Position, content: string): vscode.Range {
+  const lines = content.split(/\r?\n/);
+  const lastLine = lines[lines.length - 1];
+  const end =
+    lines.length === 1
+      ? start.translate(0, lastLine.length)
+      : new vscode.Position(start.line + lines.length - 1, lastLine.length);
+  return new vscode.Range(start, end);
+}
 
-  const selection = targetEditor.selection;
+async function applyGeneratedCode(
+  document: vscode.TextDocument,
+  range: vscode.Range,
+  content: string
+): Promise<AppliedGeneration> {
+  const viewColumn = vscode.window.visibleTextEditors.find((editor) => editor.document === document)?.viewColumn;
+  const targetEditor = await vscode.window.showTextDocument(document, viewColumn ?? vscode.ViewColumn.One);
+
+  const originalText = targetEditor.document.getText(range);
   await targetEditor.edit((editBuilder) => {
-    if (selection && !selection.isEmpty) {
-      editBuilder.replace(selection, content);
+    if (!range.isEmpty) {
+      editBuilder.replace(range, content);
     } else {
-      editBuilder.insert(selection.start, content);
+      editBuilder.insert(range.start, content);
     }
   });
   await targetEditor.document.save();
+  return {
+    originalRange: range,
+    originalText,
+    insertedRange: rangeForInsertedText(range.start, content)
+  };
 }
 
 async function executeTests(
   config: AssistantConfiguration,
   output: vscode.OutputChannel,
-  reason: string
+  reason: string,
+  options: { filter?: string; token?: vscode.CancellationToken; scope?: vscode.Uri | vscode.Uri[] } = {}
 ): Promise<TestRunResult | undefined> {
   if (!config.testsCommand) {
     vscode.window.showWarningMessage('Tests command is not configured.');
     return undefined;
   }
 
-  const cwd = getWorkingDirectory();
+  const command = options.filter ? `${config.testsCommand} --filter "${options.filter}"` : config.testsCommand;
+  const scope = await resolveTestScopes(
+    ([] as vscode.Uri[]).concat(options.scope ?? []),
+    config.defaultTestProject
+  );
+  const scoped = scope.testProjects.map((project) => scopeTestsCommand(command, project));
+  const commands = scoped.length > 0 && scoped.every((entry): entry is string => !!entry) ? scoped : [command];
+  const complete = !options.filter && !options.scope && commands.length === 1 && commands[0] === config.testsCommand;
 
   if (config.showTestOutputPanel) {
     output.show(true);
   }
 
-  output.appendLine(`[DeepSeek] Running tests (${reason}) with command: ${config.testsCommand}`);
-  const result = await runTests(config.testsCommand, cwd, output);
-  publishDiagnostics(result);
+  output.appendLine(`[DeepSeek] Running tests (${reason}) for ${scope.reason} in ${scope.cwd}`);
+  let result: TestRunResult;
+  try {
+    result = await withCancellableProgress(`DeepSeek: running tests (${reason})`, options.token, async (token) => {
+      const results: TestRunResult[] = [];
+      for (const entry of commands) {
+        output.appendLine(`[DeepSeek] Test command: ${entry}`);
+        results.push(
+          await runTests(entry, scope.cwd, output, {
+            token,
+            timeoutMs: config.testTimeoutMs,
+            resultFormat: config.testResultFormat
+          })
+        );
+      }
+      return mergeResults(results);
+    });
+  } catch (err) {
+    if (err instanceof vscode.CancellationError) {
+      output.appendLine(`[DeepSeek] Test run (${reason}) cancelled.`);
+    } else {
+      const message = (err as Error).message ?? String(err);
+      output.appendLine(`[DeepSeek] Test run (${reason}) failed: ${message}`);
+      vscode.window.showErrorMessage(`DeepSeek test run failed: ${message}`);
+    }
+    return undefined;
+  }
+  lastTestResult = result;
+  if (result.projects.length > 1) {
+    for (const { project, summary } of result.projects) {
+      output.appendLine(
+        `[DeepSeek] ${project}: Passed ${summary.passed}, Failed ${summary.failed}, Skipped ${summary.skipped}`
+      );
+    }
+  }
+  for (const failure of await publishDiagnostics(result)) {
+    output.appendLine(`[DeepSeek] No source location found for failing test ${failure.testName}.`);
+  }
+  await testExplorer?.publish(result, complete);
 
   const summary = result.summary;
   vscode.window.showInformationMessage(
@@ -192,83 +1953,286 @@ async function executeTests(
   return result;
 }
 
-function publishDiagnostics(result: TestRunResult | undefined): void {
-  diagnostics?.clear();
-  if (!result || result.failures.length === 0) {
-    return;
+async function executeBuild(
+  config: AssistantConfiguration,
+  output: vscode.OutputChannel,
+  document: vscode.TextDocument
+): Promise<BuildResult | undefined> {
+  const project = await findNearestProject(document.uri);
+  if (!project) {
+    output.appendLine(`[DeepSeek] No project found for ${document.uri.fsPath}; skipping build validation.`);
+    return undefined;
   }
 
-  const targetUri = vscode.window.activeTextEditor?.document.uri;
-  if (!targetUri) {
-    return;
+  output.appendLine(`[DeepSeek] Building ${project} with command: ${config.buildCommand}`);
+  try {
+    const result = await withCancellableProgress(`DeepSeek: building ${path.basename(project)}`, undefined, (token) =>
+      runBuild(config.buildCommand, project, output, { token, timeoutMs: config.buildTimeoutMs })
+    );
+    if (buildDiagnostics) {
+      publishBuildDiagnostics(buildDiagnostics, result);
+    }
+    // Only compiler errors mean the code does not compile; any other failure leaves the code unchecked.
+    if (!result.success && result.errors.length === 0) {
+      output.appendLine(`[DeepSeek] Build of ${project} failed without compiler errors; skipping build validation.`);
+      vscode.window.showWarningMessage(
+        `DeepSeek could not check the build of ${path.basename(project)}: it failed without compiler errors. ` +
+          'See the output for details.'
+      );
+      return undefined;
+    }
+    return result;
+  } catch (err) {
+    if (err instanceof vscode.CancellationError) {
+      output.appendLine(`[DeepSeek] Build of ${project} cancelled; skipping build validation.`);
+      return undefined;
+    }
+    const message = (err as Error).message ?? String(err);
+    output.appendLine(`[DeepSeek] Build of ${project} could not run: ${message}`);
+    vscode.window.showWarningMessage(`DeepSeek could not check the build: ${message}`);
+    return undefined;
   }
-
-  const entries = result.failures.map(
-    (failure) =>
-      new vscode.Diagnostic(
-        new vscode.Range(0, 0, 0, 0),
-        `${failure.testName}: ${failure.message ?? 'Test failed'}`,
-        vscode.DiagnosticSeverity.Error
-      )
-  );
-  diagnostics?.set(targetUri, entries);
 }
 
-function getWorkingDirectory(): string {
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-  if (workspaceFolder) {
-    return workspaceFolder;
-  }
-
-  const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
-  if (activeFile) {
-    return path.dirname(activeFile);
-  }
-
-  return process.cwd();
+async function publishDiagnostics(result: TestRunResult | undefined): Promise<TestFailure[]> {
+  return diagnostics ? publishTestDiagnostics(diagnostics, result) : [];
 }
 
-function readConfiguration(): AssistantConfiguration {
-  const config = vscode.workspace.getConfiguration('deepseekCSharp.assistant');
-  return {
+function readConfiguration(scope?: vscode.Uri): AssistantConfiguration {
+  const config = vscode.workspace.getConfiguration('deepseekCSharp.assistant', scope);
+  const provider = config.get<string>('provider', 'openai');
+  const resultFormat = config.get<string>('testResultFormat', 'auto');
+  const cacheMode = config.get<string>('cache.mode', 'off');
+  const defaults: EndpointSettings = {
+    name: DEFAULT_ENDPOINT_NAME,
+    provider: isProviderId(provider) ? provider : 'openai',
     apiUrl: config.get<string>('apiUrl', 'https://api.deepseek.com/v1/chat/completions'),
-    apiKey: config.get<string>('apiKey', ''),
     model: config.get<string>('model', 'deepseek-chat'),
     useChatApi: config.get<boolean>('useChatApi', true),
+    useDefaultApiKey: false
+  };
+  const endpoints = readNamedEndpoints(config.get<unknown>('endpoints', []), defaults);
+  return {
+    endpoint: resolveEndpoint(defaults, endpoints, config.get<string>('activeEndpoint', '')),
+    endpoints: [defaults, ...endpoints],
+    stream: config.get<boolean>('stream', true),
     timeoutMs: config.get<number>('timeoutMs', 30000),
     maxTokens: config.get<number>('maxTokens', 1024),
     temperature: config.get<number>('temperature', 0),
     autoRunTests: config.get<boolean>('autoRunTests', true),
     testsCommand: config.get<string>('testsCommand', DEFAULT_TESTS_COMMAND),
     runTestsOnSave: config.get<boolean>('runTestsOnSave', false),
+    runTestsOnSaveDebounceMs: config.get<number>('runTestsOnSaveDebounceMs', 1000),
+    testTimeoutMs: config.get<number>('testTimeoutMs', 600000),
+    testResultFormat: isResultFormat(resultFormat) ? resultFormat : 'auto',
+    validateBuild: config.get<boolean>('validateBuild', true),
+    defaultTestProject: config.get<string>('defaultTestProject', ''),
+    buildCommand: config.get<string>('buildCommand', 'dotnet build --nologo'),
+    buildTimeoutMs: config.get<number>('buildTimeoutMs', 600000),
+    maxBuildFixAttempts: config.get<number>('maxBuildFixAttempts', 3),
     showTestOutputPanel: config.get<boolean>('showTestOutputPanel', true),
     contextLines: config.get<number>('contextLines', 30),
     promptTemplatePath: config.get<string>('promptTemplatePath', ''),
-    maxConcurrentRequests: config.get<number>('maxConcurrentRequests', 2)
+    maxConcurrentRequests: config.get<number>('maxConcurrentRequests', 2),
+    maxRelatedTypes: config.get<number>('maxRelatedTypes', 5),
+    maxTestContextChars: config.get<number>('maxTestContextChars', 6000),
+    autoFixFailingTests: config.get<boolean>('autoFixFailingTests', false),
+    maxFixAttempts: config.get<number>('maxFixAttempts', 3),
+    inlineCompletionsEnabled: config.get<boolean>('inlineCompletions.enabled', false),
+    inlineDebounceMs: config.get<number>('inlineCompletions.debounceMs', 300),
+    inlineMaxTokens: config.get<number>('inlineCompletions.maxTokens', 128),
+    cacheMode: isCacheMode(cacheMode) ? cacheMode : 'off',
+    cacheMaxSizeMb: config.get<number>('cache.maxSizeMb', 50),
+    cacheDirectory: config.get<string>('cache.directory', ''),
+    modelContextWindows: config.get<Record<string, number>>('modelContextWindows', {}),
+    usagePrices: config.get<Record<string, ModelPrice>>('usage.prices', {}),
+    dailyBudget: config.get<number>('usage.dailyBudget', 0),
+    budgetAction: config.get<string>('usage.budgetAction', 'warn') === 'block' ? 'block' : 'warn',
+    redactionEnabled: config.get<boolean>('redaction.enabled', true),
+    redactionPatterns: config.get<string[]>('redaction.patterns', []),
+    structuredEdits: config.get<boolean>('structuredEdits', false)
   };
 }
 
-function buildContextSnippet(
-  document: vscode.TextDocument,
-  selection: vscode.Selection,
-  contextLines: number
-): string {
-  const startLine = Math.max(0, selection.start.line - contextLines);
-  const endLine = Math.min(document.lineCount - 1, selection.end.line + contextLines);
-  const lines: string[] = [];
-  for (let line = startLine; line <= endLine; line += 1) {
-    lines.push(document.lineAt(line).text);
+function createClient(
+  config: AssistantConfiguration,
+  output: vscode.OutputChannel,
+  command: string,
+  overrides: Partial<LlmClientOptions> = {}
+): LlmClient {
+  return new LlmClient(
+    {
+      provider: config.endpoint.provider,
+      apiUrl: config.endpoint.apiUrl,
+      getApiKey: async () => apiKeys?.get(config.endpoint.name, config.endpoint.useDefaultApiKey),
+      model: config.endpoint.model,
+      timeoutMs: config.timeoutMs,
+      maxTokens: config.maxTokens,
+      temperature: config.temperature,
+      maxConcurrentRequests: config.maxConcurrentRequests,
+      useChatApi: config.endpoint.useChatApi,
+      stream: config.stream,
+      limiter: sharedLimiter(config.maxConcurrentRequests),
+      cache: cacheFor(config),
+      cacheMode: config.cacheMode,
+      usage: usageReporter(config, output, command),
+      redactionRules: redactionRules(config),
+      ...overrides
+    },
+    output
+  );
+}
+
+function redactionRules(config: AssistantConfiguration): RedactionRule[] {
+  return config.redactionEnabled ? compileRedactionRules(config.redactionPatterns).rules : [];
+}
+
+function reportInvalidRedactionPatterns(): void {
+  const { invalid } = compileRedactionRules(readConfiguration().redactionPatterns);
+  if (invalid.length > 0) {
+    vscode.window.showWarningMessage(
+      `Ignoring invalid deepseekCSharp.assistant.redaction.patterns: ${invalid.join(', ')}`
+    );
+  }
+}
+
+// The file itself would be sent as context, so requests for ignored files are refused outright.
+async function excludedFromContext(uri: vscode.Uri): Promise<boolean> {
+  if (!(await loadIgnoreMatcher())(uri)) {
+    return false;
+  }
+  vscode.window.showWarningMessage(
+    `${vscode.workspace.asRelativePath(uri)} is excluded by ${IGNORE_FILE} and is never sent to DeepSeek.`
+  );
+  return true;
+}
+
+function usageReporter(config: AssistantConfiguration, output: vscode.OutputChannel, command: string): UsageReporter {
+  return {
+    checkBudget: async () => {
+      const spent = usageTracker?.totals().cost ?? 0;
+      if (config.dailyBudget <= 0 || spent < config.dailyBudget) {
+        return;
+      }
+      if (config.budgetAction === 'block') {
+        throw new BudgetExceededError(config.dailyBudget, spent);
+      }
+      if (budgetWarnedOn !== today()) {
+        budgetWarnedOn = today();
+        output.appendLine(`[DeepSeek] Daily budget of ${formatCost(config.dailyBudget)} exceeded.`);
+        void vscode.window.showWarningMessage(
+          `DeepSeek usage today (${formatCost(spent)}) is over the daily budget of ${formatCost(config.dailyBudget)}.`,
+          'Show Usage'
+        ).then((choice) => {
+          if (choice) {
+            void vscode.commands.executeCommand('deepseekCSharp.showUsageReport');
+          }
+        });
+      }
+    },
+    report: (usage) =>
+      void usageTracker?.record(
+        {
+          model: usage.model,
+          workspace: vscode.workspace.name ?? '(no workspace)',
+          command,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          estimated: usage.estimated
+        },
+        priceFor(usage.model, config.usagePrices)
+      )
+  };
+}
+
+function sharedLimiter(size: number): Semaphore {
+  const normalized = Math.max(1, size || 1);
+  if (!requestLimiter || requestLimiter.size !== normalized) {
+    requestLimiter = { size: normalized, semaphore: new Semaphore(normalized) };
+  }
+  return requestLimiter.semaphore;
+}
+
+function cacheFor(config: AssistantConfiguration, includeDisabled = false): ResponseCache | undefined {
+  if (config.cacheMode === 'off' && !includeDisabled) {
+    return undefined;
+  }
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const directory = config.cacheDirectory
+    ? path.isAbsolute(config.cacheDirectory) || !folder
+      ? config.cacheDirectory
+      : path.join(folder, config.cacheDirectory)
+    : defaultCacheDirectory;
+  if (!directory) {
+    return undefined;
+  }
+  const maxSizeBytes = Math.max(1, config.cacheMaxSizeMb || 1) * 1024 * 1024;
+  if (!responseCache || responseCache.directory !== directory || responseCache.maxSizeBytes !== maxSizeBytes) {
+    responseCache = new ResponseCache(directory, maxSizeBytes);
+  }
+  return responseCache;
+}
+
+async function exportCachedResponse(): Promise<void> {
+  const cache = cacheFor(readConfiguration(), true);
+  const entries = (await cache?.list()) ?? [];
+  if (!cache || entries.length === 0) {
+    vscode.window.showInformationMessage('The DeepSeek response cache is empty.');
+    return;
+  }
+
+  const items: Array<vscode.QuickPickItem & { key: string }> = [];
+  for (const summary of entries.slice(0, MAX_EXPORT_CHOICES)) {
+    const entry = await cache.peek(summary.key);
+    if (entry) {
+      const question = entry.request.messages[entry.request.messages.length - 1]?.content ?? '';
+      items.push({
+        label: question.trim().split(/\r?\n/)[0] || summary.key.slice(0, 12),
+        description: `${entry.provider}/${entry.request.model}`,
+        detail: new Date(summary.lastUsedAt).toLocaleString(),
+        key: summary.key
+      });
+    }
+  }
+  const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select a cached request to export' });
+  const entry = picked && (await cache.peek(picked.key));
+  if (!entry) {
+    return;
   }
-  return lines.join('\n');
+
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: folder && vscode.Uri.joinPath(folder, `deepseek-${entry.key.slice(0, 12)}.json`),
+    filters: { JSON: ['json'] }
+  });
+  if (target) {
+    await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(entry, null, 2), 'utf8'));
+    vscode.window.showInformationMessage(`Exported cached response to ${target.fsPath}.`);
+  }
+}
+
+interface PreparedPrompt {
+  prompt: string;
+  budget: PromptBudget;
+}
+
+interface PromptAction {
+  template?: string;
+  values?: Record<string, string>;
+  suffix?: string;
 }
 
-async function buildPrompt(contextSnippet: string, config: AssistantConfiguration): Promise<string> {
+async function buildPrompt(
+  codeContext: CodeContext,
+  config: AssistantConfiguration,
+  action?: PromptAction
+): Promise<PreparedPrompt> {
   const template =
+    action?.template ??
     (await readTemplateFile(config.promptTemplatePath)) ??
     `You are a helpful, precise C# coding assistant. Given the following context and related unit tests, produce only the C# code required that passes the tests.
 
 Context:
-<CODE_BLOCK>
 <CODE_BLOCK_CONTENT>
 
 Tests Summary:
@@ -281,13 +2245,66 @@ Constraints:
 - Do not introduce secrets or hard-coded credentials
 `;
 
-  const testSummary =
-    'Tests will be executed via the configured command and validated automatically after code is inserted.';
+  const related = await findRelatedTests(
+    { className: codeContext.className, memberName: codeContext.memberName },
+    config.maxTestContextChars,
+    lastTestResult
+  );
+  // The trim steps shrink these copies in place.
+  const context: CodeContext = { ...codeContext, relatedTypes: [...codeContext.relatedTypes] };
+  const relatedTests = { ...related, tests: [...related.tests] };
+
+  const render = () => {
+    const rendered = fillTemplate(template, {
+      CODE_BLOCK_CONTENT: formatCodeContext(context),
+      CODE_BLOCK: 'Current file context',
+      FILE_OUTLINE: context.outline,
+      ENCLOSING_MEMBER: context.enclosingMember ?? context.surrounding ?? '',
+      SELECTION: context.selection,
+      RELATED_TYPES: formatRelatedTypes(context.relatedTypes),
+      TEST_SUMMARY:
+        formatRelatedTests(relatedTests) ??
+        'Tests will be executed via the configured command and validated automatically after code is inserted.',
+      ...action?.values
+    });
+    // The suffix is measured with the rest of the prompt, so trimming leaves room for it.
+    return action?.suffix ? `${rendered}\n\n${action.suffix}` : rendered;
+  };
+
+  const rules = redactionRules(config);
+  return fitToBudget(
+    () => redactSecrets(render(), rules).text,
+    contextTrimSteps(context, relatedTests),
+    contextWindow(config),
+    config.maxTokens
+  );
+}
+
+function contextWindow(config: AssistantConfiguration): number {
+  return contextWindowFor(config.endpoint.model, config.modelContextWindows);
+}
+
+function requestBudget(config: AssistantConfiguration, messages: ChatMessage[]): PromptBudget {
+  const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+  return budgetFor(contextWindow(config), promptTokens, config.maxTokens);
+}
+
+// Keeps the original prompt and as many of the latest turns as fit; older follow-ups are dropped first.
+function fitHistory(config: AssistantConfiguration, messages: ChatMessage[], question: string): ChatMessage[] {
+  const [first, ...rest] = messages;
+  let turns = rest;
+  const fits = (history: ChatMessage[]) => {
+    const budget = requestBudget(config, [...history, { role: 'user', content: question }]);
+    return budget.maxTokens >= Math.min(config.maxTokens, MIN_CHAT_OUTPUT_TOKENS);
+  };
+  while (turns.length > 1 && !fits(first ? [first, ...turns] : turns)) {
+    turns = turns.slice(2);
+  }
+  return first ? [first, ...turns] : turns;
+}
 
-  return template
-    .replace('<CODE_BLOCK_CONTENT>', contextSnippet)
-    .replace('<CODE_BLOCK>', 'Current file context')
-    .replace('<TEST_SUMMARY>', testSummary);
+function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/<([A-Z_]+)>/g, (placeholder, name: string) => values[name] ?? placeholder);
 }
 
 async function readTemplateFile(templatePath: string): Promise<string | undefined> {
@@ -307,6 +2324,39 @@ async function readTemplateFile(templatePath: string): Promise<string | undefine
   }
 }
 
-function updateWebview(panel: vscode.WebviewPanel, state: WebviewState): void {
-  panel.webview.html = renderWebview(state);
+interface Throttled<T> {
+  (value: T): void;
+  cancel(): void;
+}
+
+function throttle<T>(fn: (value: T) => void, intervalMs: number): Throttled<T> {
+  let last = 0;
+  let pending: T | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  const throttled = ((value: T) => {
+    pending = value;
+    const wait = last + intervalMs - Date.now();
+    if (wait <= 0) {
+      last = Date.now();
+      fn(value);
+      return;
+    }
+    if (!timer) {
+      timer = setTimeout(() => {
+        timer = undefined;
+        last = Date.now();
+        fn(pending as T);
+      }, wait);
+    }
+  }) as Throttled<T>;
+
+  throttled.cancel = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+  };
+
+  return throttled;
 }
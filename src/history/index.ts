@@ -0,0 +1,171 @@
+import * as vscode from 'vscode';
+import { TestSummary } from '../testRunner';
+
+export interface SerializedRange {
+  startLine: number;
+  startCharacter: number;
+  endLine: number;
+  endCharacter: number;
+}
+
+// Callers may pass a full TestRunResult; only this part of it is stored.
+export interface RecordedTestResult {
+  success: boolean;
+  summary: TestSummary;
+  failures: Array<{ testName: string; message?: string }>;
+}
+
+export interface GenerationRecord {
+  id: string;
+  timestamp: number;
+  fileUri: string;
+  originalRange: SerializedRange;
+  originalText: string;
+  insertedRange: SerializedRange;
+  insertedText: string;
+  prompt: string;
+  model: string;
+  testResult?: RecordedTestResult;
+  rolledBack?: boolean;
+}
+
+export type RollbackOutcome = 'restored' | 'alreadyRolledBack' | 'notFound';
+
+const STORAGE_KEY = 'deepseekCSharp.history';
+const MAX_RECORDS = 50;
+
+export class GenerationHistory {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  list(): GenerationRecord[] {
+    return this.state.get<GenerationRecord[]>(STORAGE_KEY, []);
+  }
+
+  get(id: string): GenerationRecord | undefined {
+    return this.list().find((record) => record.id === id);
+  }
+
+  async add(record: Omit<GenerationRecord, 'id' | 'timestamp'>): Promise<GenerationRecord> {
+    const entry: GenerationRecord = {
+      ...record,
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: Date.now()
+    };
+    await this.save([entry, ...this.list()].slice(0, MAX_RECORDS));
+    return entry;
+  }
+
+  async update(id: string, changes: Partial<Omit<GenerationRecord, 'id'>>): Promise<void> {
+    await this.save(this.list().map((record) => (record.id === id ? { ...record, ...changes } : record)));
+  }
+
+  async clear(): Promise<void> {
+    await this.save([]);
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  private async save(records: GenerationRecord[]): Promise<void> {
+    await this.state.update(STORAGE_KEY, records.map(compactRecord));
+    this.changeEmitter.fire();
+  }
+}
+
+// Full test results carry every test with its output and stack trace, which would bloat workspace state.
+function compactRecord(record: GenerationRecord): GenerationRecord {
+  const result = record.testResult;
+  if (!result) {
+    return record;
+  }
+  return {
+    ...record,
+    testResult: {
+      success: result.success,
+      summary: result.summary,
+      failures: result.failures.map(({ testName, message }) => ({ testName, message }))
+    }
+  };
+}
+
+export async function rollbackGeneration(record: GenerationRecord): Promise<RollbackOutcome> {
+  if (record.rolledBack) {
+    return 'alreadyRolledBack';
+  }
+
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(record.fileUri));
+  const range = locateInsertedText(document, record);
+  if (!range) {
+    return 'notFound';
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(document.uri, range, record.originalText);
+  const applied = await vscode.workspace.applyEdit(edit);
+  if (!applied) {
+    return 'notFound';
+  }
+  await document.save();
+  return 'restored';
+}
+
+export function serializeRange(range: vscode.Range): SerializedRange {
+  return {
+    startLine: range.start.line,
+    startCharacter: range.start.character,
+    endLine: range.end.line,
+    endCharacter: range.end.character
+  };
+}
+
+export function deserializeRange(range: SerializedRange): vscode.Range {
+  return new vscode.Range(range.startLine, range.startCharacter, range.endLine, range.endCharacter);
+}
+
+function locateInsertedText(document: vscode.TextDocument, record: GenerationRecord): vscode.Range | undefined {
+  const recorded = document.validateRange(deserializeRange(record.insertedRange));
+  if (normalizeEol(document.getText(recorded)) === normalizeEol(record.insertedText)) {
+    return recorded;
+  }
+
+  // The file changed since insertion: fall back to the occurrence closest to where it was inserted.
+  const text = normalizeEol(document.getText());
+  const needle = normalizeEol(record.insertedText);
+  if (!needle) {
+    return undefined;
+  }
+
+  const eolLength = document.eol === vscode.EndOfLine.CRLF ? 2 : 1;
+  const originalOffset = normalizeEol(document.getText(new vscode.Range(new vscode.Position(0, 0), recorded.start))).length;
+  let best: number | undefined;
+  for (let index = text.indexOf(needle); index !== -1; index = text.indexOf(needle, index + 1)) {
+    if (best === undefined || Math.abs(index - originalOffset) < Math.abs(best - originalOffset)) {
+      best = index;
+    }
+  }
+  if (best === undefined) {
+    return undefined;
+  }
+
+  const start = positionAtNormalizedOffset(document, text, best, eolLength);
+  const end = positionAtNormalizedOffset(document, text, best + needle.length, eolLength);
+  return new vscode.Range(start, end);
+}
+
+function positionAtNormalizedOffset(
+  document: vscode.TextDocument,
+  text: string,
+  offset: number,
+  eolLength: number
+): vscode.Position {
+  const lineBreaks = (text.slice(0, offset).match(/\n/g) ?? []).length;
+  return document.positionAt(offset + lineBreaks * (eolLength - 1));
+}
+
+function normalizeEol(value: string): string {
+  return value.replace(/\r\n/g, '\n');
+}
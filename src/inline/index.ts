@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import { LlmClient } from '../llm/client';
+import { stripCodeFences } from '../llm/response';
+import { findPlaceholders } from '../redaction';
+import { loadIgnoreMatcher } from '../redaction/ignore';
+import { delay } from '../util';
+
+export interface InlineCompletionSettings {
+  enabled: boolean;
+  debounceMs: number;
+  createClient: () => LlmClient;
+}
+
+const PREFIX_CHARS = 4000;
+const SUFFIX_CHARS = 1500;
+
+export class InlineCompletionProvider implements vscode.InlineCompletionItemProvider {
+  constructor(
+    private readonly readSettings: () => InlineCompletionSettings,
+    private readonly output: vscode.OutputChannel
+  ) {}
+
+  async provideInlineCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    _context: vscode.InlineCompletionContext,
+    token: vscode.CancellationToken
+  ): Promise<vscode.InlineCompletionItem[] | undefined> {
+    const settings = this.readSettings();
+    if (!settings.enabled) {
+      return undefined;
+    }
+
+    // Typing triggers a new request that cancels this token, so waiting here debounces keystrokes.
+    if (!(await delay(settings.debounceMs, token))) {
+      return undefined;
+    }
+
+    const offset = document.offsetAt(position);
+    const text = document.getText();
+    const prefix = text.slice(Math.max(0, offset - PREFIX_CHARS), offset);
+    const suffix = text.slice(offset, offset + SUFFIX_CHARS);
+    if (!prefix.trim() || (await loadIgnoreMatcher())(document.uri)) {
+      return undefined;
+    }
+
+    try {
+      const prompt = buildFillInTheMiddlePrompt(prefix, suffix);
+      const result = await settings.createClient().tryGenerate(prompt, { token });
+      if (!result || token.isCancellationRequested) {
+        return undefined;
+      }
+
+      const linePrefix = document.lineAt(position.line).text.slice(0, position.character);
+      const completion = trimOverlap(stripCodeFences(result.content), linePrefix, suffix);
+      if (!completion.trim()) {
+        return undefined;
+      }
+      // A suggestion that repeats a redacted value cannot be accepted as is.
+      if (findPlaceholders(completion).length > 0) {
+        this.output.appendLine('[DeepSeek] Dropped an inline completion that contains redacted placeholders.');
+        return undefined;
+      }
+      return [new vscode.InlineCompletionItem(completion, new vscode.Range(position, position))];
+    } catch (err) {
+      if (!(err instanceof vscode.CancellationError)) {
+        this.output.appendLine(`[DeepSeek] Inline completion failed: ${(err as Error).message ?? String(err)}`);
+      }
+      return undefined;
+    }
+  }
+}
+
+function buildFillInTheMiddlePrompt(prefix: string, suffix: string): string {
+  return `You are a C# code completion engine. Fill in the code at <CURSOR>.
+Return only the text to insert at <CURSOR>. Do not repeat code that is already before or after the cursor. No explanations, no markdown.
+
+<PREFIX>${prefix}<CURSOR>${suffix}<SUFFIX>`;
+}
+
+function trimOverlap(completion: string, linePrefix: string, suffix: string): string {
+  let result = completion;
+  const typed = linePrefix.trim();
+  if (typed && result.startsWith(typed)) {
+    result = result.slice(typed.length);
+  }
+
+  const suffixStart = suffix.trimStart();
+  for (let length = Math.min(result.length, suffixStart.length); length >= 3; length -= 1) {
+    if (result.endsWith(suffixStart.slice(0, length))) {
+      return result.slice(0, result.length - length);
+    }
+  }
+  return result;
+}
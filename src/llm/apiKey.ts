@@ -0,0 +1,99 @@
+import { createHash } from 'crypto';
+import * as vscode from 'vscode';
+import { DEFAULT_ENDPOINT_NAME } from './endpoints';
+
+const SECRET_KEY = 'deepseekCSharp.apiKey';
+const SETTINGS_SECTION = 'deepseekCSharp.assistant';
+// Holds a hash of the plain settings key the user chose to keep, never the key itself.
+const KEPT_SETTING_KEY = 'deepseekCSharp.apiKey.keptInSettings';
+
+export const SET_API_KEY_COMMAND = 'deepseekCSharp.setApiKey';
+
+export class MissingApiKeyError extends Error {
+  constructor() {
+    super(`API key is not configured. Run "DeepSeek: Set API Key" to store it securely.`);
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+interface LegacySetting {
+  config: vscode.WorkspaceConfiguration;
+  target: vscode.ConfigurationTarget;
+  value?: string;
+}
+
+export class ApiKeyStore {
+  constructor(
+    private readonly secrets: vscode.SecretStorage,
+    private readonly state: vscode.Memento
+  ) {}
+
+  // A named endpoint falls back to the default key only when it opts in, since its apiUrl may be any server.
+  async get(endpointName = DEFAULT_ENDPOINT_NAME, useDefaultKey = false): Promise<string | undefined> {
+    const own = await this.secrets.get(secretKeyFor(endpointName));
+    if (own || !useDefaultKey || endpointName === DEFAULT_ENDPOINT_NAME) {
+      return own || undefined;
+    }
+    return (await this.secrets.get(SECRET_KEY)) || undefined;
+  }
+
+  async set(value: string, endpointName = DEFAULT_ENDPOINT_NAME): Promise<void> {
+    await this.secrets.store(secretKeyFor(endpointName), value);
+  }
+
+  async clear(endpointName = DEFAULT_ENDPOINT_NAME): Promise<void> {
+    await this.secrets.delete(secretKeyFor(endpointName));
+  }
+
+  async migrateFromSettings(): Promise<void> {
+    const config = vscode.workspace.getConfiguration(SETTINGS_SECTION);
+    const inspected = config.inspect<string>('apiKey');
+    const targets: LegacySetting[] = [
+      // Folder settings need a configuration scoped to that folder to be read and removed.
+      ...(vscode.workspace.workspaceFolders ?? []).map((folder) => {
+        const folderConfig = vscode.workspace.getConfiguration(SETTINGS_SECTION, folder.uri);
+        return {
+          config: folderConfig,
+          target: vscode.ConfigurationTarget.WorkspaceFolder,
+          value: folderConfig.inspect<string>('apiKey')?.workspaceFolderValue
+        };
+      }),
+      { config, target: vscode.ConfigurationTarget.Workspace, value: inspected?.workspaceValue },
+      { config, target: vscode.ConfigurationTarget.Global, value: inspected?.globalValue }
+    ].filter((entry) => !!entry.value);
+    if (targets.length === 0) {
+      return;
+    }
+
+    const legacy = targets[0].value as string;
+    const fingerprint = createHash('sha256').update(legacy).digest('hex');
+    if (this.state.get<string>(KEPT_SETTING_KEY) === fingerprint) {
+      return;
+    }
+    // A key already in secure storage wins: it may have been rotated since the setting was written.
+    const stored = await this.get();
+    if (!stored) {
+      await this.set(legacy);
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      stored && stored !== legacy
+        ? 'A different DeepSeek API key is in secure storage and is used instead of the one in plain settings. ' +
+            'Remove the key from settings?'
+        : 'The DeepSeek API key was found in plain settings and is kept in secure storage. Remove it from settings?',
+      'Remove from Settings',
+      'Keep'
+    );
+    if (choice === 'Remove from Settings') {
+      for (const entry of targets) {
+        await entry.config.update('apiKey', undefined, entry.target);
+      }
+    } else if (choice === 'Keep') {
+      await this.state.update(KEPT_SETTING_KEY, fingerprint);
+    }
+  }
+}
+
+function secretKeyFor(endpointName: string): string {
+  return endpointName === DEFAULT_ENDPOINT_NAME ? SECRET_KEY : `${SECRET_KEY}:${endpointName}`;
+}
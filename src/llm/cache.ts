@@ -0,0 +1,114 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ProviderId, ProviderRequest } from './providers';
+
+export type CacheMode = 'off' | 'readWrite' | 'replay';
+
+export const CACHE_MODES: CacheMode[] = ['off', 'readWrite', 'replay'];
+
+export interface CachedRequest {
+  provider: ProviderId;
+  request: Omit<ProviderRequest, 'stream'>;
+}
+
+export interface CacheEntry extends CachedRequest {
+  key: string;
+  createdAt: number;
+  response: {
+    content: string;
+    raw: unknown;
+  };
+}
+
+export interface CacheEntrySummary {
+  key: string;
+  createdAt: number;
+  lastUsedAt: number;
+  size: number;
+}
+
+export class CacheMissError extends Error {
+  constructor() {
+    super('No cached response matches this request (cache.mode is "replay").');
+    this.name = 'CacheMissError';
+  }
+}
+
+export function isCacheMode(value: string): value is CacheMode {
+  return (CACHE_MODES as string[]).includes(value);
+}
+
+// Streaming only changes how the response arrives, so it is not part of the key.
+export function cacheKey(provider: ProviderId, request: ProviderRequest): string {
+  const { stream: _stream, ...keyed } = request;
+  return createHash('sha256').update(JSON.stringify({ provider, request: keyed })).digest('hex');
+}
+
+export class ResponseCache {
+  constructor(readonly directory: string, readonly maxSizeBytes: number) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = await this.peek(key);
+    if (entry) {
+      const now = new Date();
+      await fs.utimes(this.fileFor(key), now, now).catch(() => undefined);
+    }
+    return entry;
+  }
+
+  // Reads an entry without counting it as used, e.g. when listing entries for export.
+  async peek(key: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.fileFor(key), 'utf8')) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.fileFor(entry.key), JSON.stringify(entry, null, 2), 'utf8');
+    await this.evict();
+  }
+
+  async list(): Promise<CacheEntrySummary[]> {
+    const entries = await fs.readdir(this.directory).catch(() => [] as string[]);
+    const summaries: CacheEntrySummary[] = [];
+    for (const name of entries.filter((entry) => entry.endsWith('.json'))) {
+      const stat = await fs.stat(path.join(this.directory, name)).catch(() => undefined);
+      if (stat) {
+        summaries.push({
+          key: path.basename(name, '.json'),
+          createdAt: stat.birthtimeMs || stat.ctimeMs,
+          lastUsedAt: stat.mtimeMs,
+          size: stat.size
+        });
+      }
+    }
+    return summaries.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+  }
+
+  async clear(): Promise<number> {
+    const entries = await this.list();
+    await Promise.all(entries.map((entry) => fs.rm(this.fileFor(entry.key), { force: true })));
+    return entries.length;
+  }
+
+  // Least recently used entries go first; reads refresh the mtime.
+  private async evict(): Promise<void> {
+    const entries = await this.list();
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    for (const entry of entries.reverse()) {
+      if (total <= this.maxSizeBytes) {
+        break;
+      }
+      await fs.rm(this.fileFor(entry.key), { force: true });
+      total -= entry.size;
+    }
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+}
@@ -1,24 +1,72 @@
 import fetch from 'node-fetch';
 import type { Response } from 'node-fetch';
 import * as vscode from 'vscode';
+import { RedactionRule, redactSecrets } from '../redaction';
+import { delay } from '../util';
+import { MissingApiKeyError } from './apiKey';
+import { CacheMissError, CacheMode, cacheKey, ResponseCache } from './cache';
+import {
+  ChatMessage,
+  createProvider,
+  LlmProvider,
+  LlmRequestError,
+  ProviderId,
+  ProviderRequest,
+  TokenCounts
+} from './providers';
+import { estimateTokens } from './tokens';
 
 export interface LlmClientOptions {
+  provider: ProviderId;
   apiUrl: string;
-  apiKey: string;
+  getApiKey: () => Promise<string | undefined>;
   model: string;
   timeoutMs: number;
   maxTokens: number;
   temperature: number;
   maxConcurrentRequests: number;
   useChatApi: boolean;
+  stream: boolean;
+  limiter?: Semaphore;
+  cache?: ResponseCache;
+  cacheMode?: CacheMode;
+  usage?: UsageReporter;
+  // Applied to every outgoing message, including follow-ups and repair prompts.
+  redactionRules?: RedactionRule[];
+}
+
+export interface RequestUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // Set when the provider did not report usage and the counts were estimated locally.
+  estimated: boolean;
+}
+
+export interface UsageReporter {
+  // Throws to block the request, e.g. once a daily budget is exhausted.
+  checkBudget(): Promise<void>;
+  report(usage: RequestUsage): void;
 }
 
 export interface GenerateResult {
   content: string;
   raw: unknown;
+  usage?: TokenCounts;
 }
 
-class Semaphore {
+export type PartialContentListener = (content: string) => void;
+
+export interface GenerateOptions {
+  onPartial?: PartialContentListener;
+  token?: vscode.CancellationToken;
+  history?: ChatMessage[];
+  maxTokens?: number;
+  // Skips cached responses (e.g. an explicit retry) but still records the new one.
+  bypassCache?: boolean;
+}
+
+export class Semaphore {
   private queue: Array<() => void> = [];
   private counter: number;
 
@@ -34,6 +82,14 @@ class Semaphore {
     await new Promise<void>((resolve) => this.queue.push(resolve));
   }
 
+  tryAcquire(): boolean {
+    if (this.counter > 0) {
+      this.counter -= 1;
+      return true;
+    }
+    return false;
+  }
+
   release(): void {
     this.counter += 1;
     const next = this.queue.shift();
@@ -46,49 +102,186 @@ class Semaphore {
 
 export class LlmClient {
   private semaphore: Semaphore;
+  private provider: LlmProvider;
 
   constructor(private readonly options: LlmClientOptions, private readonly output: vscode.OutputChannel) {
-    this.semaphore = new Semaphore(options.maxConcurrentRequests || 1);
+    this.semaphore = options.limiter ?? new Semaphore(options.maxConcurrentRequests || 1);
+    this.provider = createProvider(options.provider);
   }
 
-  async generate(prompt: string): Promise<GenerateResult> {
-    if (!this.options.apiUrl) {
-      throw new Error('API URL is not configured (deepseekCSharp.assistant.apiUrl).');
-    }
-    if (!this.options.apiKey) {
-      throw new Error('API key is not configured (deepseekCSharp.assistant.apiKey).');
+  async generate(prompt: string, options: GenerateOptions = {}): Promise<GenerateResult> {
+    const request = this.buildRequest(prompt, options);
+    const cached = await this.readCache(request, options);
+    if (cached) {
+      return cached;
     }
+    const apiKey = await this.resolveApiKey();
+    await this.options.usage?.checkBudget();
 
     await this.semaphore.acquire();
     try {
-      return await this.callWithRetry(prompt);
+      return await this.complete(request, await this.callWithRetry(request, apiKey, options));
     } finally {
       this.semaphore.release();
     }
   }
 
-  private async callWithRetry(prompt: string): Promise<GenerateResult> {
+  // Background callers never queue behind explicit requests: when every slot is busy the request is skipped.
+  async tryGenerate(prompt: string, options: GenerateOptions = {}): Promise<GenerateResult | undefined> {
+    const request = this.buildRequest(prompt, options);
+    const cached = await this.readCache(request, options);
+    if (cached) {
+      return cached;
+    }
+    const apiKey = await this.resolveApiKey();
+    await this.options.usage?.checkBudget();
+
+    if (!this.semaphore.tryAcquire()) {
+      return undefined;
+    }
+    try {
+      return await this.complete(request, await this.callWithRetry(request, apiKey, options));
+    } finally {
+      this.semaphore.release();
+    }
+  }
+
+  private buildRequest(prompt: string, options: GenerateOptions): ProviderRequest {
+    return {
+      messages: this.redact([...(options.history ?? []), { role: 'user', content: prompt }]),
+      model: this.options.model,
+      maxTokens: options.maxTokens ?? this.options.maxTokens,
+      temperature: this.options.temperature,
+      stream: this.options.stream,
+      useChatApi: this.options.useChatApi
+    };
+  }
+
+  private redact(messages: ChatMessage[]): ChatMessage[] {
+    const rules = this.options.redactionRules;
+    if (!rules || rules.length === 0) {
+      return messages;
+    }
+    let redacted = 0;
+    const result = messages.map((message) => {
+      const { text, placeholders } = redactSecrets(message.content, rules);
+      redacted += placeholders.length;
+      return { ...message, content: text };
+    });
+    if (redacted > 0) {
+      this.output.appendLine(`[DeepSeek] Redacted ${redacted} secret(s) from the request`);
+    }
+    return result;
+  }
+
+  private async readCache(request: ProviderRequest, options: GenerateOptions): Promise<GenerateResult | undefined> {
+    const { cache, cacheMode = 'off', provider } = this.options;
+    if (!cache || cacheMode === 'off') {
+      return undefined;
+    }
+    const replay = cacheMode === 'replay';
+    // Responses sampled at a non-zero temperature are meant to vary, so only replay reuses them.
+    if (!replay && (options.bypassCache || request.temperature !== 0)) {
+      return undefined;
+    }
+
+    const entry = await cache.get(cacheKey(provider, request));
+    if (!entry) {
+      if (replay) {
+        throw new CacheMissError();
+      }
+      return undefined;
+    }
+    this.output.appendLine(`[DeepSeek] Using cached response ${entry.key.slice(0, 12)}`);
+    options.onPartial?.(entry.response.content);
+    return { content: entry.response.content, raw: entry.response.raw };
+  }
+
+  private async complete(request: ProviderRequest, result: GenerateResult): Promise<GenerateResult> {
+    const { promptTokens, completionTokens } = result.usage ?? {};
+    this.options.usage?.report({
+      model: request.model,
+      promptTokens: promptTokens ?? estimateTokens(request.messages.map((message) => message.content).join('\n')),
+      completionTokens: completionTokens ?? estimateTokens(result.content),
+      estimated: promptTokens === undefined || completionTokens === undefined
+    });
+    return this.writeCache(request, result);
+  }
+
+  private async writeCache(request: ProviderRequest, result: GenerateResult): Promise<GenerateResult> {
+    const { cache, cacheMode, provider } = this.options;
+    if (cache && cacheMode === 'readWrite') {
+      const { stream: _stream, ...cachedRequest } = request;
+      await cache
+        .set({
+          key: cacheKey(provider, request),
+          provider,
+          request: cachedRequest,
+          createdAt: Date.now(),
+          response: { content: result.content, raw: result.raw }
+        })
+        .catch((err) => {
+          this.output.appendLine(`[DeepSeek] Failed to cache response: ${(err as Error).message}`);
+        });
+    }
+    return result;
+  }
+
+  private async resolveApiKey(): Promise<string | undefined> {
+    if (!this.options.apiUrl) {
+      throw new Error('API URL is not configured (deepseekCSharp.assistant.apiUrl).');
+    }
+    const apiKey = await this.options.getApiKey();
+    if (!apiKey && this.provider.requiresApiKey) {
+      throw new MissingApiKeyError();
+    }
+    return apiKey;
+  }
+
+  private async callWithRetry(
+    request: ProviderRequest,
+    apiKey: string | undefined,
+    options: GenerateOptions
+  ): Promise<GenerateResult> {
     const attempts = 3;
     for (let attempt = 1; attempt <= attempts; attempt++) {
+      if (options.token?.isCancellationRequested) {
+        throw new vscode.CancellationError();
+      }
       try {
-        return await this.call(prompt);
+        return await this.call(request, apiKey, options);
       } catch (err) {
+        if (err instanceof vscode.CancellationError) {
+          throw err;
+        }
         const message = (err as Error)?.message ?? String(err);
         this.output.appendLine(`[DeepSeek] Attempt ${attempt} failed: ${message}`);
-        if (attempt === attempts) {
+        if (attempt === attempts || (err instanceof LlmRequestError && !err.retryable)) {
           throw err;
         }
-        await new Promise((resolve) => setTimeout(resolve, 500 * Math.pow(2, attempt - 1)));
+        if (!(await delay(500 * Math.pow(2, attempt - 1), options.token))) {
+          throw new vscode.CancellationError();
+        }
       }
     }
     throw new Error('Unexpected retry failure');
   }
 
-  private async call(prompt: string): Promise<GenerateResult> {
-    const payload = this.buildPayload(prompt);
+  private async call(
+    request: ProviderRequest,
+    apiKey: string | undefined,
+    options: GenerateOptions
+  ): Promise<GenerateResult> {
+    const { onPartial, token } = options;
+    const payload = this.provider.buildPayload(request);
 
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    let timeout = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    const resetTimeout = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => controller.abort(), this.options.timeoutMs);
+    };
+    const cancellation = token?.onCancellationRequested(() => controller.abort());
 
     try {
       const response = await fetch(this.options.apiUrl, {
@@ -96,61 +289,128 @@ export class LlmClient {
         body: JSON.stringify(payload),
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.options.apiKey}`
+          Accept: this.options.stream ? streamContentType(this.provider) : 'application/json',
+          ...this.provider.buildHeaders(apiKey)
         },
         signal: controller.signal
       });
 
-      this.ensureSuccess(response);
+      await this.ensureSuccess(response);
+
+      if (this.options.stream && isStreamResponse(response, this.provider)) {
+        return await this.readStream(response, resetTimeout, onPartial);
+      }
+
       const data = (await response.json()) as Record<string, unknown>;
-      const content = this.extractContent(data);
-      return { content, raw: data };
+      const content = this.provider.parseResponse(data);
+      onPartial?.(content);
+      return { content, raw: data, usage: this.provider.parseUsage(data) };
     } catch (err) {
+      if (token?.isCancellationRequested) {
+        throw new vscode.CancellationError();
+      }
       if ((err as Error)?.name === 'AbortError') {
-        throw new Error('LLM request timed out');
+        throw new Error(
+          this.options.stream ? 'LLM stream stalled (no data within timeout)' : 'LLM request timed out'
+        );
       }
       throw err;
     } finally {
       clearTimeout(timeout);
+      cancellation?.dispose();
     }
   }
 
-  private buildPayload(prompt: string): Record<string, unknown> {
-    const base = {
-      model: this.options.model,
-      max_tokens: this.options.maxTokens,
-      temperature: this.options.temperature
+  private async readStream(
+    response: Response,
+    onChunk: () => void,
+    onPartial?: PartialContentListener
+  ): Promise<GenerateResult> {
+    let content = '';
+    let raw: unknown;
+    let usage: TokenCounts | undefined;
+    let buffer = '';
+    let done = false;
+
+    const ndjson = this.provider.streamFormat === 'ndjson';
+    const separator = ndjson ? /\r?\n/ : /\r?\n\r?\n/;
+    const handleEvent = (event: string) => {
+      const data = ndjson ? event.trim() || undefined : parseSseData(event);
+      if (data === undefined || done) {
+        return;
+      }
+      if (data === '[DONE]') {
+        done = true;
+        return;
+      }
+
+      // Keep-alive or malformed events are skipped; throwing here would retry and repeat the streamed text.
+      let parsed: Record<string, unknown>;
+      try {
+        parsed = JSON.parse(data) as Record<string, unknown>;
+      } catch {
+        this.output.appendLine(`[DeepSeek] Skipped an unparsable stream event: ${data.slice(0, 200)}`);
+        return;
+      }
+      raw = parsed;
+      const counts = this.provider.parseUsage(parsed);
+      if (counts) {
+        usage = {
+          promptTokens: counts.promptTokens ?? usage?.promptTokens,
+          completionTokens: counts.completionTokens ?? usage?.completionTokens
+        };
+      }
+      const streamEvent = this.provider.parseStreamEvent(parsed);
+      if (streamEvent.delta) {
+        content += streamEvent.delta;
+        onPartial?.(content);
+      }
+      done = streamEvent.done;
     };
-    const prefersChat = this.options.useChatApi;
 
-    return prefersChat
-      ? { ...base, messages: [{ role: 'user', content: prompt }] }
-      : { ...base, prompt };
+    onPartial?.('');
+
+    for await (const chunk of response.body) {
+      onChunk();
+      buffer += chunk.toString();
+      const events = buffer.split(separator);
+      buffer = events.pop() ?? '';
+      events.forEach(handleEvent);
+      if (done) {
+        break;
+      }
+    }
+    handleEvent(buffer);
+
+    return { content, raw, usage };
   }
 
-  private ensureSuccess(response: Response): void {
+  private async ensureSuccess(response: Response): Promise<void> {
     if (!response.ok) {
-      const status = `${response.status} ${response.statusText}`;
-      throw new Error(`LLM request failed: ${status}`);
+      const body = await response.text().catch(() => '');
+      throw this.provider.mapError(response.status, response.statusText, body);
     }
   }
+}
 
-  private extractContent(data: Record<string, unknown>): string {
-    const choices = (data as { choices?: Array<{ text?: string; message?: { content?: string } }> }).choices;
-    if (choices && choices.length > 0) {
-      const first = choices[0];
-      if (first.message?.content) {
-        return first.message.content;
-      }
-      if (first.text) {
-        return first.text;
-      }
-    }
+function streamContentType(provider: LlmProvider): string {
+  return provider.streamFormat === 'ndjson' ? 'application/x-ndjson' : 'text/event-stream';
+}
 
-    const content = (data as { content?: string }).content ?? (data as { result?: string }).result;
-    if (typeof content === 'string' && content.trim().length > 0) {
-      return content;
-    }
-    return '';
+function isStreamResponse(response: Response, provider: LlmProvider): boolean {
+  const contentType = (response.headers.get('content-type') ?? '').toLowerCase();
+  return provider.streamFormat === 'ndjson'
+    ? contentType.includes('ndjson') || contentType.includes('jsonl')
+    : contentType.includes('text/event-stream');
+}
+
+function parseSseData(event: string): string | undefined {
+  const lines = event
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith('data:'))
+    .map((line) => line.slice(5).replace(/^ /, ''));
+  if (lines.length === 0) {
+    return undefined;
   }
+  return lines.join('\n').trim();
 }
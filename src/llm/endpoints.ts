@@ -0,0 +1,37 @@
+import { isProviderId, ProviderId } from './providers';
+
+export const DEFAULT_ENDPOINT_NAME = 'Default';
+
+export interface EndpointSettings {
+  name: string;
+  provider: ProviderId;
+  apiUrl: string;
+  model: string;
+  useChatApi: boolean;
+  useDefaultApiKey: boolean;
+}
+
+export function readNamedEndpoints(value: unknown, defaults: EndpointSettings): EndpointSettings[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+    .filter((entry) => typeof entry.name === 'string' && entry.name.trim() && entry.name !== DEFAULT_ENDPOINT_NAME)
+    .map((entry) => ({
+      name: String(entry.name).trim(),
+      provider: isProviderId(entry.provider) ? entry.provider : defaults.provider,
+      apiUrl: typeof entry.apiUrl === 'string' ? entry.apiUrl : defaults.apiUrl,
+      model: typeof entry.model === 'string' ? entry.model : defaults.model,
+      useChatApi: typeof entry.useChatApi === 'boolean' ? entry.useChatApi : defaults.useChatApi,
+      useDefaultApiKey: entry.useDefaultApiKey === true
+    }));
+}
+
+export function resolveEndpoint(
+  defaults: EndpointSettings,
+  endpoints: EndpointSettings[],
+  activeName: string
+): EndpointSettings {
+  return endpoints.find((endpoint) => endpoint.name === activeName) ?? defaults;
+}
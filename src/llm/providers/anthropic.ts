@@ -0,0 +1,68 @@
+import { errorDetailFromBody, LlmRequestError, mapHttpError } from './shared';
+import { LlmProvider, ProviderRequest, StreamEvent, TokenCounts } from './types';
+
+type AnthropicUsage = { input_tokens?: number; output_tokens?: number };
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export class AnthropicProvider implements LlmProvider {
+  readonly id = 'anthropic';
+  readonly requiresApiKey = true;
+  readonly streamFormat = 'sse';
+
+  buildPayload(request: ProviderRequest): Record<string, unknown> {
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+    const payload: Record<string, unknown> = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: request.messages.filter((message) => message.role !== 'system')
+    };
+    if (system) {
+      payload.system = system;
+    }
+    return request.stream ? { ...payload, stream: true } : payload;
+  }
+
+  buildHeaders(apiKey: string | undefined): Record<string, string> {
+    const headers: Record<string, string> = { 'anthropic-version': ANTHROPIC_VERSION };
+    if (apiKey) {
+      headers['x-api-key'] = apiKey;
+    }
+    return headers;
+  }
+
+  parseResponse(data: Record<string, unknown>): string {
+    const content = (data as { content?: Array<{ type?: string; text?: string }> }).content ?? [];
+    return content
+      .filter((block) => block.type === 'text' && block.text)
+      .map((block) => block.text)
+      .join('');
+  }
+
+  parseStreamEvent(data: Record<string, unknown>): StreamEvent {
+    const event = data as { type?: string; delta?: { type?: string; text?: string } };
+    if (event.type === 'message_stop') {
+      return { delta: '', done: true };
+    }
+    if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      return { delta: event.delta.text ?? '', done: false };
+    }
+    return { delta: '', done: false };
+  }
+
+  // Streams report input tokens in message_start and output tokens in message_delta.
+  parseUsage(data: Record<string, unknown>): TokenCounts | undefined {
+    const event = data as { usage?: AnthropicUsage; message?: { usage?: AnthropicUsage } };
+    const usage = event.usage ?? event.message?.usage;
+    return usage ? { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens } : undefined;
+  }
+
+  mapError(status: number, statusText: string, body: string): LlmRequestError {
+    // 529 means the API is temporarily overloaded and is worth retrying.
+    return mapHttpError(status === 529 ? 503 : status, statusText, errorDetailFromBody(body));
+  }
+}
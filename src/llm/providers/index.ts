@@ -0,0 +1,28 @@
+import { AnthropicProvider } from './anthropic';
+import { LocalProvider } from './local';
+import { OllamaProvider } from './ollama';
+import { OpenAiProvider } from './openai';
+import { LlmProvider, ProviderId } from './types';
+
+export { LlmRequestError } from './shared';
+export * from './types';
+
+export const PROVIDER_IDS: ProviderId[] = ['openai', 'ollama', 'anthropic', 'local'];
+
+export function createProvider(id: ProviderId): LlmProvider {
+  switch (id) {
+    case 'ollama':
+      return new OllamaProvider();
+    case 'anthropic':
+      return new AnthropicProvider();
+    case 'local':
+      return new LocalProvider();
+    case 'openai':
+    default:
+      return new OpenAiProvider();
+  }
+}
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && (PROVIDER_IDS as string[]).includes(value);
+}
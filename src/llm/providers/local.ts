@@ -0,0 +1,65 @@
+import {
+  bearerHeaders,
+  errorDetailFromBody,
+  flattenMessages,
+  LlmRequestError,
+  mapHttpError,
+  openAiUsage
+} from './shared';
+import { LlmProvider, ProviderRequest, StreamEvent, TokenCounts } from './types';
+
+type LocalResponse = {
+  content?: string;
+  result?: string;
+  text?: string;
+  choices?: Array<{ text?: string; message?: { content?: string }; delta?: { content?: string } }>;
+  stop?: boolean;
+  tokens_evaluated?: number;
+  tokens_predicted?: number;
+};
+
+export class LocalProvider implements LlmProvider {
+  readonly id = 'local';
+  readonly requiresApiKey = false;
+  readonly streamFormat = 'sse';
+
+  buildPayload(request: ProviderRequest): Record<string, unknown> {
+    const payload = {
+      model: request.model || undefined,
+      prompt: flattenMessages(request.messages),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature
+    };
+    return request.stream ? { ...payload, stream: true } : payload;
+  }
+
+  buildHeaders(apiKey: string | undefined): Record<string, string> {
+    return bearerHeaders(apiKey);
+  }
+
+  parseResponse(data: Record<string, unknown>): string {
+    const response = data as LocalResponse;
+    const first = response.choices?.[0];
+    return first?.message?.content ?? first?.text ?? response.content ?? response.result ?? response.text ?? '';
+  }
+
+  parseStreamEvent(data: Record<string, unknown>): StreamEvent {
+    const response = data as LocalResponse;
+    const first = response.choices?.[0];
+    const delta = first?.delta?.content ?? first?.text ?? response.content ?? response.text ?? '';
+    return { delta, done: response.stop === true };
+  }
+
+  // llama.cpp style servers report their own counters instead of an OpenAI usage block.
+  parseUsage(data: Record<string, unknown>): TokenCounts | undefined {
+    const response = data as LocalResponse;
+    if (response.tokens_evaluated !== undefined || response.tokens_predicted !== undefined) {
+      return { promptTokens: response.tokens_evaluated, completionTokens: response.tokens_predicted };
+    }
+    return openAiUsage(data);
+  }
+
+  mapError(status: number, statusText: string, body: string): LlmRequestError {
+    return mapHttpError(status, statusText, errorDetailFromBody(body));
+  }
+}
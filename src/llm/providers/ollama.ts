@@ -0,0 +1,56 @@
+import { bearerHeaders, errorDetailFromBody, flattenMessages, LlmRequestError, mapHttpError } from './shared';
+import { LlmProvider, ProviderRequest, StreamEvent, TokenCounts } from './types';
+
+type OllamaResponse = {
+  message?: { content?: string };
+  response?: string;
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+};
+
+export class OllamaProvider implements LlmProvider {
+  readonly id = 'ollama';
+  readonly requiresApiKey = false;
+  readonly streamFormat = 'ndjson';
+
+  buildPayload(request: ProviderRequest): Record<string, unknown> {
+    const base = {
+      model: request.model,
+      stream: request.stream,
+      options: {
+        temperature: request.temperature,
+        num_predict: request.maxTokens
+      }
+    };
+    return request.useChatApi
+      ? { ...base, messages: request.messages }
+      : { ...base, prompt: flattenMessages(request.messages) };
+  }
+
+  buildHeaders(apiKey: string | undefined): Record<string, string> {
+    return bearerHeaders(apiKey);
+  }
+
+  parseResponse(data: Record<string, unknown>): string {
+    const response = data as OllamaResponse;
+    return response.message?.content ?? response.response ?? '';
+  }
+
+  parseStreamEvent(data: Record<string, unknown>): StreamEvent {
+    const response = data as OllamaResponse;
+    return { delta: response.message?.content ?? response.response ?? '', done: response.done === true };
+  }
+
+  parseUsage(data: Record<string, unknown>): TokenCounts | undefined {
+    const response = data as OllamaResponse;
+    if (!response.done) {
+      return undefined;
+    }
+    return { promptTokens: response.prompt_eval_count, completionTokens: response.eval_count };
+  }
+
+  mapError(status: number, statusText: string, body: string): LlmRequestError {
+    return mapHttpError(status, statusText, errorDetailFromBody(body));
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  bearerHeaders,
+  errorDetailFromBody,
+  flattenMessages,
+  LlmRequestError,
+  mapHttpError,
+  openAiUsage
+} from './shared';
+import { LlmProvider, ProviderRequest, StreamEvent, TokenCounts } from './types';
+
+type OpenAiChoice = { text?: string; message?: { content?: string }; delta?: { content?: string } };
+
+export class OpenAiProvider implements LlmProvider {
+  readonly id = 'openai';
+  readonly requiresApiKey = true;
+  readonly streamFormat = 'sse';
+
+  buildPayload(request: ProviderRequest): Record<string, unknown> {
+    const base = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature
+    };
+    const payload = request.useChatApi
+      ? { ...base, messages: request.messages }
+      : { ...base, prompt: flattenMessages(request.messages) };
+    // Without stream_options the streamed response carries no token usage.
+    return request.stream ? { ...payload, stream: true, stream_options: { include_usage: true } } : payload;
+  }
+
+  buildHeaders(apiKey: string | undefined): Record<string, string> {
+    return bearerHeaders(apiKey);
+  }
+
+  parseResponse(data: Record<string, unknown>): string {
+    const first = (data as { choices?: OpenAiChoice[] }).choices?.[0];
+    return first?.message?.content ?? first?.text ?? '';
+  }
+
+  parseStreamEvent(data: Record<string, unknown>): StreamEvent {
+    const first = (data as { choices?: OpenAiChoice[] }).choices?.[0];
+    return { delta: first?.delta?.content ?? first?.text ?? '', done: false };
+  }
+
+  parseUsage(data: Record<string, unknown>): TokenCounts | undefined {
+    return openAiUsage(data);
+  }
+
+  mapError(status: number, statusText: string, body: string): LlmRequestError {
+    return mapHttpError(status, statusText, errorDetailFromBody(body));
+  }
+}
@@ -0,0 +1,65 @@
+import { ChatMessage, TokenCounts } from './types';
+
+export class LlmRequestError extends Error {
+  constructor(message: string, readonly status?: number, readonly retryable = true) {
+    super(message);
+    this.name = 'LlmRequestError';
+  }
+}
+
+export function mapHttpError(status: number, statusText: string, detail?: string): LlmRequestError {
+  const suffix = detail ? `: ${detail}` : '';
+  if (status === 401 || status === 403) {
+    return new LlmRequestError(
+      `Authentication failed (${status})${suffix}. Check the API key for this endpoint.`,
+      status,
+      false
+    );
+  }
+  if (status === 404) {
+    return new LlmRequestError(`Endpoint or model not found (404)${suffix}. Check apiUrl and model.`, status, false);
+  }
+  if (status === 408 || status === 429) {
+    return new LlmRequestError(`LLM request was throttled (${status})${suffix}`, status, true);
+  }
+  if (status >= 500) {
+    return new LlmRequestError(`LLM server error: ${status} ${statusText}${suffix}`, status, true);
+  }
+  return new LlmRequestError(`LLM request failed: ${status} ${statusText}${suffix}`, status, false);
+}
+
+export function openAiUsage(data: Record<string, unknown>): TokenCounts | undefined {
+  const usage = (data as { usage?: { prompt_tokens?: number; completion_tokens?: number } }).usage;
+  return usage ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } : undefined;
+}
+
+export function errorDetailFromBody(body: string): string | undefined {
+  if (!body.trim()) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(body) as { error?: string | { message?: string }; message?: string };
+    if (typeof parsed.error === 'string') {
+      return parsed.error;
+    }
+    return parsed.error?.message ?? parsed.message ?? undefined;
+  } catch {
+    return body.trim().slice(0, 200);
+  }
+}
+
+export function flattenMessages(messages: ChatMessage[]): string {
+  if (messages.length === 1 && messages[0].role === 'user') {
+    return messages[0].content;
+  }
+  const turns = messages.map((message) => `${capitalize(message.role)}: ${message.content}`);
+  return `${turns.join('\n\n')}\n\nAssistant:`;
+}
+
+export function bearerHeaders(apiKey: string | undefined): Record<string, string> {
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
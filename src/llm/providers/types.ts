@@ -0,0 +1,42 @@
+import { LlmRequestError } from './shared';
+
+export type ProviderId = 'openai' | 'ollama' | 'anthropic' | 'local';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProviderRequest {
+  messages: ChatMessage[];
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  stream: boolean;
+  useChatApi: boolean;
+}
+
+export type StreamFormat = 'sse' | 'ndjson';
+
+// Providers report prompt and completion tokens in different events; missing counts stay undefined.
+export interface TokenCounts {
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface StreamEvent {
+  delta: string;
+  done: boolean;
+}
+
+export interface LlmProvider {
+  readonly id: ProviderId;
+  readonly requiresApiKey: boolean;
+  readonly streamFormat: StreamFormat;
+  buildPayload(request: ProviderRequest): Record<string, unknown>;
+  buildHeaders(apiKey: string | undefined): Record<string, string>;
+  parseResponse(data: Record<string, unknown>): string;
+  parseStreamEvent(data: Record<string, unknown>): StreamEvent;
+  parseUsage(data: Record<string, unknown>): TokenCounts | undefined;
+  mapError(status: number, statusText: string, body: string): LlmRequestError;
+}
@@ -0,0 +1,115 @@
+export interface NormalizedResponse {
+  code: string;
+  looksLikeCSharp: boolean;
+  warnings: string[];
+}
+
+interface FencedBlock {
+  language: string;
+  content: string;
+}
+
+const CSHARP_LANGUAGES = ['csharp', 'cs', 'c#', 'c-sharp'];
+const FENCE_PATTERN = /^[ \t]*(```|~~~)[ \t]*([^\s`]*)[^\n]*\n([\s\S]*?)(?:^[ \t]*\1[ \t]*$|(?![\s\S]))/gm;
+const CODE_LINE_PATTERN =
+  /[;{}]\s*$|^\s*(\/\/|\/\*|\*|\[|#(region|endregion|if|endif|nullable))|^\s*(using|namespace|public|private|protected|internal|static|class|interface|record|struct|enum|var|return|if|else|for|foreach|while|switch|case|throw|try|catch|finally|await|async|new)\b|=>|^\s*[\w<>\[\],.?]+\s+\w+\s*\(.*\)\s*$/;
+const CSHARP_SIGNAL_PATTERN =
+  /\b(public|private|protected|internal|class|namespace|using|var|return|void|static|async|await|new|string|int|bool|Task)\b|=>|;\s*$/m;
+
+export function normalizeResponse(raw: string, indentation: string): NormalizedResponse {
+  const warnings: string[] = [];
+  const text = raw.replace(/\r\n/g, '\n');
+  const blocks = extractFencedBlocks(text);
+
+  let code: string;
+  if (blocks.length > 0) {
+    const block = pickBlock(blocks);
+    code = block.content;
+    if (blocks.length > 1) {
+      warnings.push(`Response contained ${blocks.length} code blocks; using the ${describeBlock(block)} block.`);
+    }
+    if (block.language && !CSHARP_LANGUAGES.includes(block.language)) {
+      warnings.push(`Selected code block is marked as "${block.language}", not C#.`);
+    }
+  } else {
+    code = stripProse(text);
+    if (code.trim() !== text.trim()) {
+      warnings.push('Removed explanatory text surrounding the code.');
+    }
+  }
+
+  code = reindent(trimBlankLines(code), indentation);
+  const looksLikeCSharp = code.trim().length > 0 && CSHARP_SIGNAL_PATTERN.test(code);
+  if (!looksLikeCSharp) {
+    warnings.push('The response does not look like C# code.');
+  }
+
+  return { code, looksLikeCSharp, warnings };
+}
+
+export function stripCodeFences(raw: string): string {
+  const text = raw.replace(/\r\n/g, '\n');
+  const blocks = extractFencedBlocks(text);
+  return blocks.length > 0 ? pickBlock(blocks).content.replace(/\s+$/, '') : text;
+}
+
+export function indentationAt(lineText: string, character: number): string {
+  const before = lineText.slice(0, character);
+  const leading = lineText.match(/^[ \t]*/)?.[0] ?? '';
+  return /^[ \t]*$/.test(before) ? before : leading;
+}
+
+function extractFencedBlocks(text: string): FencedBlock[] {
+  const blocks: FencedBlock[] = [];
+  for (const match of text.matchAll(FENCE_PATTERN)) {
+    blocks.push({ language: match[2].toLowerCase(), content: match[3] });
+  }
+  return blocks;
+}
+
+function pickBlock(blocks: FencedBlock[]): FencedBlock {
+  const candidates = blocks.filter((block) => CSHARP_LANGUAGES.includes(block.language));
+  const pool = candidates.length > 0 ? candidates : blocks.filter((block) => !block.language);
+  return (pool.length > 0 ? pool : blocks).reduce((best, block) =>
+    block.content.length > best.content.length ? block : best
+  );
+}
+
+function describeBlock(block: FencedBlock): string {
+  return block.language ? `"${block.language}"` : 'unlabelled';
+}
+
+function stripProse(text: string): string {
+  const lines = text.split('\n');
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !CODE_LINE_PATTERN.test(lines[start])) {
+    start += 1;
+  }
+  while (end > start && !CODE_LINE_PATTERN.test(lines[end - 1])) {
+    end -= 1;
+  }
+  return start < end ? lines.slice(start, end).join('\n') : text;
+}
+
+function trimBlankLines(code: string): string {
+  return code.replace(/^(?:[ \t]*\n)+/, '').replace(/\s+$/, '');
+}
+
+function reindent(code: string, indentation: string): string {
+  const lines = code.split('\n');
+  const indents = lines
+    .filter((line) => line.trim().length > 0)
+    .map((line) => line.match(/^[ \t]*/)?.[0].length ?? 0);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+
+  return lines
+    .map((line, index) => {
+      if (line.trim().length === 0) {
+        return '';
+      }
+      const stripped = line.slice(common);
+      return index === 0 ? stripped : indentation + stripped;
+    })
+    .join('\n');
+}
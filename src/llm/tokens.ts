@@ -0,0 +1,104 @@
+export interface PromptBudget {
+  contextWindow: number;
+  promptTokens: number;
+  maxTokens: number;
+  requestedMaxTokens: number;
+  trimmed: string[];
+}
+
+export interface TrimStep {
+  label: string;
+  // Returns false once there is nothing left to trim in this section.
+  trim: () => boolean;
+}
+
+// Longest prefix wins, so "gpt-4o" is matched before "gpt-4".
+const CONTEXT_WINDOWS: Array<[string, number]> = [
+  ['deepseek-chat', 65536],
+  ['deepseek-reasoner', 65536],
+  ['deepseek-coder', 131072],
+  ['gpt-4o', 128000],
+  ['gpt-4.1', 1047576],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+  ['o1', 200000],
+  ['o3', 200000],
+  ['claude', 200000],
+  ['qwen2.5-coder', 32768],
+  ['codellama', 16384],
+  ['llama3', 8192],
+  ['mistral', 32768],
+  ['codestral', 32768]
+];
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const MIN_OUTPUT_TOKENS = 256;
+// The estimate is a heuristic, so keep some headroom below the real window.
+const HEADROOM = 0.95;
+
+// Roughly what BPE tokenizers produce for code: ~4 letters per token, one token per symbol or CJK character.
+export function estimateTokens(text: string): number {
+  let tokens = Math.ceil((text.match(/\n/g)?.length ?? 0) / 2);
+  for (const piece of text.match(/[A-Za-z]+|\d+|\S/g) ?? []) {
+    if (/^[A-Za-z]+$/.test(piece)) {
+      tokens += Math.ceil(piece.length / 4);
+    } else if (/^\d+$/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
+
+export function contextWindowFor(model: string, overrides: Record<string, number> = {}): number {
+  const name = model.toLowerCase();
+  const override = Object.entries(overrides).find(([key]) => key.toLowerCase() === name)?.[1];
+  if (typeof override === 'number' && override > 0) {
+    return override;
+  }
+  const matches = CONTEXT_WINDOWS.filter(([prefix]) => name.startsWith(prefix) || name.includes(`/${prefix}`));
+  return matches.sort((a, b) => b[0].length - a[0].length)[0]?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+// Trims only when the prompt would leave less than a minimal answer; otherwise max_tokens shrinks to fit.
+export function fitToBudget(
+  render: () => string,
+  steps: TrimStep[],
+  contextWindow: number,
+  maxTokens: number
+): { prompt: string; budget: PromptBudget } {
+  const limit = Math.floor(contextWindow * HEADROOM) - Math.min(maxTokens, MIN_OUTPUT_TOKENS);
+  const trimmed: string[] = [];
+  let prompt = render();
+  let promptTokens = estimateTokens(prompt);
+
+  for (const step of steps) {
+    while (promptTokens > limit && step.trim()) {
+      if (!trimmed.includes(step.label)) {
+        trimmed.push(step.label);
+      }
+      prompt = render();
+      promptTokens = estimateTokens(prompt);
+    }
+  }
+
+  return { prompt, budget: budgetFor(contextWindow, promptTokens, maxTokens, trimmed) };
+}
+
+export function budgetFor(
+  contextWindow: number,
+  promptTokens: number,
+  maxTokens: number,
+  trimmed: string[] = []
+): PromptBudget {
+  const room = Math.floor(contextWindow * HEADROOM) - promptTokens;
+  // A prompt that no longer fits still gets a usable answer size; the panel flags the overflow.
+  return {
+    contextWindow,
+    promptTokens,
+    maxTokens: Math.max(Math.min(maxTokens, MIN_OUTPUT_TOKENS), Math.min(maxTokens, room)),
+    requestedMaxTokens: maxTokens,
+    trimmed
+  };
+}
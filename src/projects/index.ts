@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { findTestProjects, TestProject } from '../context/tests';
+
+export interface TestScope {
+  cwd: string;
+  testProjects: string[];
+  reason: string;
+}
+
+const PROJECT_REFERENCE_PATTERN = /<ProjectReference\s+Include\s*=\s*"([^"]+)"/gi;
+
+export async function findNearestProject(uri: vscode.Uri, extensions = ['.csproj']): Promise<string | undefined> {
+  const root = vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath;
+  let directory = path.dirname(uri.fsPath);
+  for (;;) {
+    const entries = await fs.readdir(directory).catch(() => [] as string[]);
+    for (const extension of extensions) {
+      const project = entries.find((entry) => entry.toLowerCase().endsWith(extension));
+      if (project) {
+        return path.join(directory, project);
+      }
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory || (root && !parent.startsWith(root))) {
+      return undefined;
+    }
+    directory = parent;
+  }
+}
+
+export async function findRelatedTestProjects(projectPath: string): Promise<TestProject[]> {
+  const testProjects = await findTestProjects();
+  const own = testProjects.find((project) => samePath(project.uri.fsPath, projectPath));
+  if (own) {
+    return [own];
+  }
+
+  const related: TestProject[] = [];
+  for (const project of testProjects) {
+    const content = Buffer.from(await vscode.workspace.fs.readFile(project.uri)).toString('utf8');
+    for (const match of content.matchAll(PROJECT_REFERENCE_PATTERN)) {
+      // ProjectReference paths use backslashes even on Linux and macOS.
+      const reference = path.resolve(project.directory, match[1].replace(/\\/g, path.sep));
+      if (samePath(reference, projectPath)) {
+        related.push(project);
+        break;
+      }
+    }
+  }
+  return related;
+}
+
+export async function resolveTestScope(uri: vscode.Uri | undefined, pinnedProject: string): Promise<TestScope> {
+  const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+  const cwd = folder?.uri.fsPath ?? defaultWorkingDirectory();
+
+  if (pinnedProject) {
+    const pinned = path.isAbsolute(pinnedProject) ? pinnedProject : path.join(cwd, pinnedProject);
+    return { cwd, testProjects: [pinned], reason: `pinned test project ${path.basename(pinned)}` };
+  }
+  if (!uri) {
+    return { cwd, testProjects: [], reason: 'workspace' };
+  }
+
+  const project = await findNearestProject(uri);
+  if (project) {
+    const related = await findRelatedTestProjects(project);
+    if (related.length > 0) {
+      return {
+        cwd,
+        testProjects: related.map((entry) => entry.uri.fsPath),
+        reason: `tests referencing ${path.basename(project)}`
+      };
+    }
+  }
+
+  const solution = await findNearestProject(uri, ['.sln']);
+  if (solution) {
+    return { cwd: path.dirname(solution), testProjects: [], reason: path.basename(solution) };
+  }
+  return { cwd, testProjects: [], reason: folder?.name ?? 'workspace' };
+}
+
+// Several files share one run when all of them map to test projects in the same folder; otherwise the folder runs.
+export async function resolveTestScopes(uris: vscode.Uri[], pinnedProject: string): Promise<TestScope> {
+  const scopes = await Promise.all(uris.map((uri) => resolveTestScope(uri, pinnedProject)));
+  if (scopes.length === 0) {
+    return resolveTestScope(undefined, pinnedProject);
+  }
+  const [first] = scopes;
+  if (scopes.some((scope) => scope.cwd !== first.cwd)) {
+    return resolveTestScope(undefined, pinnedProject);
+  }
+  if (scopes.some((scope) => scope.testProjects.length === 0)) {
+    return scopes.every((scope) => scope.reason === first.reason)
+      ? first
+      : { cwd: first.cwd, testProjects: [], reason: path.basename(first.cwd) };
+  }
+  const testProjects = [...new Set(scopes.flatMap((scope) => scope.testProjects))];
+  const reasons = [...new Set(scopes.map((scope) => scope.reason))];
+  return { cwd: first.cwd, testProjects, reason: reasons.join(', ') };
+}
+
+// `dotnet test` accepts a single project argument, so a scoped run executes one command per test project.
+export function scopeTestsCommand(command: string, testProject: string): string | undefined {
+  const match = command.match(/^(\s*dotnet\s+test)(\s|$)/);
+  if (!match) {
+    return undefined;
+  }
+  return `${match[1]} "${testProject}"${command.slice(match[1].length)}`;
+}
+
+function defaultWorkingDirectory(): string {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (workspaceFolder) {
+    return workspaceFolder;
+  }
+
+  const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+  if (activeFile) {
+    return path.dirname(activeFile);
+  }
+
+  return process.cwd();
+}
+
+function samePath(a: string, b: string): boolean {
+  const normalize = (value: string) => path.normalize(value).replace(/[\\/]+$/, '');
+  return process.platform === 'win32'
+    ? normalize(a).toLowerCase() === normalize(b).toLowerCase()
+    : normalize(a) === normalize(b);
+}
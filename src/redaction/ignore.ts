@@ -0,0 +1,84 @@
+import * as vscode from 'vscode';
+
+export const IGNORE_FILE = '.deepseekignore';
+
+export type IgnoreMatcher = (uri: vscode.Uri) => boolean;
+
+interface IgnoreRule {
+  negated: boolean;
+  pattern: RegExp;
+}
+
+// Reads .deepseekignore from every workspace folder root. Patterns follow .gitignore: the last matching line wins.
+export async function loadIgnoreMatcher(): Promise<IgnoreMatcher> {
+  const folders = new Map<string, IgnoreRule[]>();
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    try {
+      const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, IGNORE_FILE));
+      folders.set(folder.uri.toString(), parseIgnoreFile(Buffer.from(content).toString('utf8')));
+    } catch {
+      // No ignore file in this folder.
+    }
+  }
+
+  return (uri) => {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    const rules = folder && folders.get(folder.uri.toString());
+    if (!folder || !rules) {
+      return false;
+    }
+    const relative = uri.path.slice(folder.uri.path.replace(/\/$/, '').length + 1);
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.pattern.test(relative)) {
+        ignored = !rule.negated;
+      }
+    }
+    return ignored;
+  };
+}
+
+function parseIgnoreFile(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    let line = raw.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const negated = line.startsWith('!');
+    line = negated ? line.slice(1) : line;
+    const directoryOnly = line.endsWith('/');
+    line = line.replace(/\/+$/, '');
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    if (!line) {
+      continue;
+    }
+    // A match on a directory also covers everything below it; directory-only patterns never match a file itself.
+    const prefix = anchored ? '' : '(?:.*/)?';
+    const suffix = directoryOnly ? '/.*' : '(?:/.*)?';
+    rules.push({ negated, pattern: new RegExp(`^${prefix}${globToRegExp(line)}${suffix}$`) });
+  }
+  return rules;
+}
+
+function globToRegExp(glob: string): string {
+  let result = '';
+  for (let index = 0; index < glob.length; index += 1) {
+    const char = glob[index];
+    if (glob.startsWith('**/', index)) {
+      result += '(?:.*/)?';
+      index += 2;
+    } else if (glob.startsWith('**', index)) {
+      result += '.*';
+      index += 1;
+    } else if (char === '*') {
+      result += '[^/]*';
+    } else if (char === '?') {
+      result += '[^/]';
+    } else {
+      result += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return result;
+}
@@ -0,0 +1,82 @@
+import { createHash } from 'crypto';
+
+export interface RedactionRule {
+  kind: string;
+  // When the pattern has a named group "secret", only that group is replaced.
+  pattern: RegExp;
+}
+
+export interface RedactionResult {
+  text: string;
+  placeholders: string[];
+}
+
+export const BUILT_IN_RULES: RedactionRule[] = [
+  // Starts only after a quote or at the beginning of a line (past any comment marker) to stay linear on long lines.
+  {
+    kind: 'connection-string',
+    pattern:
+      /(?<=^[ \t]*(?:\/\/+[ \t]*)?|["'`])(?![ \t/])[^"'`\r\n]*\b(?:Password|Pwd|AccountKey|SharedAccessKey|SharedAccessSignature)\s*=[^"'`\r\n]*/gim
+  },
+  {
+    kind: 'connection-string',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/"']+:[^\s@/"']+@[^\s"']+/gi
+  },
+  { kind: 'jwt', pattern: /\beyJ[\w-]{10,}\.eyJ[\w-]{10,}\.[\w-]{10,}/g },
+  { kind: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    kind: 'aws-secret-key',
+    pattern: /\b(?:aws_?secret_?access_?key|SecretAccessKey)["']?\s*[:=]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})/gi
+  },
+  { kind: 'azure-key', pattern: /(?<![A-Za-z0-9+/])[A-Za-z0-9+/]{86}==/g },
+  { kind: 'azure-sas', pattern: /\bsig=(?<secret>[A-Za-z0-9%+/=]{30,})/g },
+  { kind: 'azure-client-secret', pattern: /(?<![\w~.-])[\w~.-]{3}\dQ~[\w~.-]{31,34}(?![\w~.-])/g },
+  {
+    kind: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g
+  }
+];
+
+const PLACEHOLDER_PATTERN = /<redacted:[a-z0-9-]+:[0-9a-f]{8}>/g;
+
+// Invalid user patterns are returned separately so the caller can report them.
+export function compileRedactionRules(patterns: string[]): { rules: RedactionRule[]; invalid: string[] } {
+  const rules = [...BUILT_IN_RULES];
+  const invalid: string[] = [];
+  for (const source of patterns) {
+    try {
+      rules.push({ kind: 'custom', pattern: new RegExp(source, 'g') });
+    } catch {
+      invalid.push(source);
+    }
+  }
+  return { rules, invalid };
+}
+
+// Placeholders are derived from the secret itself, so every prompt in a conversation agrees on them.
+export function redactSecrets(text: string, rules: RedactionRule[]): RedactionResult {
+  const placeholders = new Set<string>();
+  let redacted = text;
+  for (const { kind, pattern } of rules) {
+    redacted = redacted.replace(pattern, (match: string, ...args: unknown[]) => {
+      const groups = args[args.length - 1];
+      const secret = typeof groups === 'object' && groups ? (groups as Record<string, string>).secret : undefined;
+      if (secret === undefined && match.length === 0) {
+        return match;
+      }
+      const value = secret ?? match;
+      const placeholder = `<redacted:${kind}:${createHash('sha256').update(value).digest('hex').slice(0, 8)}>`;
+      placeholders.add(placeholder);
+      if (secret === undefined) {
+        return placeholder;
+      }
+      const index = match.lastIndexOf(secret);
+      return match.slice(0, index) + placeholder + match.slice(index + secret.length);
+    });
+  }
+  return { text: redacted, placeholders: [...placeholders] };
+}
+
+export function findPlaceholders(text: string): string[] {
+  return [...new Set(text.match(PLACEHOLDER_PATTERN) ?? [])];
+}
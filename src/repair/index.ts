@@ -0,0 +1,79 @@
+import { TestFailure, TestRunResult } from '../testRunner';
+
+export interface RepairIteration {
+  attempt: number;
+  code: string;
+  testResult?: TestRunResult;
+  error?: string;
+}
+
+const MAX_FAILURES_IN_PROMPT = 10;
+const MAX_STACK_TRACE_LINES = 12;
+const MAX_OUTPUT_LINES = 20;
+
+export function buildRepairPrompt(code: string, failures: TestFailure[]): string {
+  const shown = failures.slice(0, MAX_FAILURES_IN_PROMPT);
+  const failureText = shown.map((failure, index) => formatFailure(failure, index + 1)).join('\n\n');
+  const omitted =
+    failures.length > shown.length ? `\n\n(${failures.length - shown.length} more failing tests omitted)` : '';
+
+  return `You are a helpful, precise C# coding assistant. The following code was inserted into a file, but the unit tests fail. Produce a corrected version of the code that makes the tests pass.
+
+Inserted code:
+${code}
+
+Failing tests:
+${failureText || 'The test run failed without reporting individual test failures.'}${omitted}
+
+Constraints:
+- Return the complete replacement for the inserted code
+- Only return code, no explanation or comments
+- Keep the existing signatures unless a failure requires changing them
+- Do not introduce secrets or hard-coded credentials
+`;
+}
+
+export function buildCompileFixPrompt(code: string, errors: string[]): string {
+  const shown = errors.slice(0, MAX_FAILURES_IN_PROMPT * 2);
+  const omitted = errors.length > shown.length ? `\n(${errors.length - shown.length} more errors omitted)` : '';
+
+  return `You are a helpful, precise C# coding assistant. The following code was inserted into a file, but the project no longer compiles. Produce a corrected version of the code that fixes the compiler errors.
+
+Inserted code:
+${code}
+
+Compiler errors:
+${shown.join('\n')}${omitted}
+
+Constraints:
+- Return the complete replacement for the inserted code
+- Only return code, no explanation or comments
+- Keep the existing signatures unless an error requires changing them
+- Do not introduce secrets or hard-coded credentials
+`;
+}
+
+export function isRepairable(result: TestRunResult | undefined): result is TestRunResult {
+  return !!result && !result.success;
+}
+
+function formatFailure(failure: TestFailure, index: number): string {
+  const lines = [`${index}. ${failure.testName}${failure.project ? ` (${failure.project})` : ''}`];
+  if (failure.message) {
+    lines.push(`   Message: ${failure.message.trim()}`);
+  }
+  if (failure.stackTrace) {
+    const stack = failure.stackTrace.trim().split(/\r?\n/).slice(0, MAX_STACK_TRACE_LINES);
+    lines.push('   Stack trace:', ...stack.map((line) => `     ${line.trim()}`));
+  }
+  for (const [label, text] of [
+    ['Standard output', failure.stdout],
+    ['Standard error', failure.stderr]
+  ]) {
+    if (text?.trim()) {
+      const output = text.trim().split(/\r?\n/).slice(0, MAX_OUTPUT_LINES);
+      lines.push(`   ${label}:`, ...output.map((line) => `     ${line}`));
+    }
+  }
+  return lines.join('\n');
+}
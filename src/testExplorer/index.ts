@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import { SourceResolver } from '../diagnostics';
+import { TestCaseResult, TestRunResult } from '../testRunner';
+import { parseStackTrace, splitTestName } from '../testRunner/stackTrace';
+
+export type TestExecutor = (
+  filter: string | undefined,
+  token: vscode.CancellationToken
+) => Promise<TestRunResult | undefined>;
+
+interface FilterTarget {
+  fullyQualifiedName: string;
+  exact: boolean;
+}
+
+export class TestExplorer implements vscode.Disposable {
+  private readonly controller: vscode.TestController;
+  private readonly targets = new WeakMap<vscode.TestItem, FilterTarget>();
+  private active: vscode.TestRun | undefined;
+
+  constructor(private readonly execute: TestExecutor) {
+    this.controller = vscode.tests.createTestController('deepseekCSharp.tests', 'DeepSeek C# Tests');
+    this.controller.createRunProfile(
+      'Run with testsCommand',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.runTests(request, token),
+      true
+    );
+  }
+
+  // `complete` means the whole suite ran: unfiltered and not narrowed to some test projects.
+  async publish(result: TestRunResult | undefined, complete: boolean): Promise<void> {
+    if (!result) {
+      return;
+    }
+
+    const run = this.active ?? this.controller.createTestRun(new vscode.TestRunRequest(), 'DeepSeek', false);
+    const resolver = new SourceResolver();
+    const seen = new Set<string>();
+
+    for (const test of result.tests) {
+      const item = await this.upsertTest(test, resolver);
+      seen.add(item.id);
+      switch (test.outcome) {
+        case 'passed':
+          run.passed(item, test.durationMs);
+          break;
+        case 'skipped':
+          run.skipped(item);
+          break;
+        case 'failed':
+          run.failed(item, await this.failureMessage(test, item, resolver), test.durationMs);
+          break;
+      }
+    }
+
+    // Only a run of the whole suite tells us which tests no longer exist.
+    if (complete && result.tests.length > 0) {
+      this.prune(seen);
+    }
+    if (!this.active) {
+      run.end();
+    }
+  }
+
+  dispose(): void {
+    this.controller.dispose();
+  }
+
+  private async runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+    const run = this.controller.createTestRun(request);
+    const filter = this.buildFilter(request);
+    this.active = run;
+    this.leaves(request.include).forEach((item) => run.enqueued(item));
+    try {
+      await this.execute(filter, token);
+    } finally {
+      this.active = undefined;
+      run.end();
+    }
+  }
+
+  private async upsertTest(test: TestCaseResult, resolver: SourceResolver): Promise<vscode.TestItem> {
+    const methodName = test.methodName ?? splitTestName(test.testName).methodName;
+    const className = test.className ?? test.testName.replace(/\(.*\)\s*$/, '').split('.').slice(0, -1).join('.');
+    const classItem = this.upsertClass(className || '(unknown)');
+
+    const existing = classItem.children.get(test.testName);
+    if (existing) {
+      return existing;
+    }
+
+    const location = await resolver.findTestMethod(test.testName);
+    const label = test.testName.startsWith(`${className}.`) ? test.testName.slice(className.length + 1) : test.testName;
+    const item = this.controller.createTestItem(test.testName, label, location?.uri);
+    if (location) {
+      item.range = new vscode.Range(location.line, 0, location.line, 0);
+    }
+    const fullyQualifiedName = className ? `${className}.${methodName}` : methodName;
+    this.targets.set(item, { fullyQualifiedName, exact: fullyQualifiedName === test.testName });
+    classItem.children.add(item);
+    return item;
+  }
+
+  private upsertClass(className: string): vscode.TestItem {
+    const existing = this.controller.items.get(className);
+    if (existing) {
+      return existing;
+    }
+    const separator = className.lastIndexOf('.');
+    const item = this.controller.createTestItem(className, className.slice(separator + 1));
+    item.description = separator > 0 ? className.slice(0, separator) : undefined;
+    this.targets.set(item, { fullyQualifiedName: `${className}.`, exact: false });
+    this.controller.items.add(item);
+    return item;
+  }
+
+  private async failureMessage(
+    test: TestCaseResult,
+    item: vscode.TestItem,
+    resolver: SourceResolver
+  ): Promise<vscode.TestMessage> {
+    const message = new vscode.TestMessage(
+      test.stackTrace ? `${test.message ?? 'Test failed'}\n\n${test.stackTrace}` : test.message ?? 'Test failed'
+    );
+    for (const frame of parseStackTrace(test.stackTrace)) {
+      const uri = await resolver.resolveFile(frame.file);
+      if (uri) {
+        message.location = new vscode.Location(uri, new vscode.Position(Math.max(0, frame.line - 1), 0));
+        return message;
+      }
+    }
+    if (item.uri && item.range) {
+      message.location = new vscode.Location(item.uri, item.range);
+    }
+    return message;
+  }
+
+  private prune(seen: Set<string>): void {
+    this.controller.items.forEach((classItem) => {
+      classItem.children.forEach((item) => {
+        if (!seen.has(item.id)) {
+          classItem.children.delete(item.id);
+        }
+      });
+      if (classItem.children.size === 0) {
+        this.controller.items.delete(classItem.id);
+      }
+    });
+  }
+
+  private leaves(items: readonly vscode.TestItem[] | undefined): vscode.TestItem[] {
+    const roots: vscode.TestItem[] = [];
+    if (items) {
+      roots.push(...items);
+    } else {
+      this.controller.items.forEach((item) => roots.push(item));
+    }
+
+    const leaves: vscode.TestItem[] = [];
+    for (const item of roots) {
+      if (item.children.size === 0) {
+        leaves.push(item);
+      } else {
+        item.children.forEach((child) => leaves.push(child));
+      }
+    }
+    return leaves;
+  }
+
+  private buildFilter(request: vscode.TestRunRequest): string | undefined {
+    const expression = (item: vscode.TestItem, negate: boolean) => {
+      const target = this.targets.get(item);
+      if (!target) {
+        return undefined;
+      }
+      const operator = `${negate ? '!' : ''}${target.exact ? '=' : '~'}`;
+      return `FullyQualifiedName${operator}${target.fullyQualifiedName}`;
+    };
+
+    const include = (request.include ?? [])
+      .map((item) => expression(item, false))
+      .filter((value): value is string => !!value);
+    const exclude = (request.exclude ?? [])
+      .map((item) => expression(item, true))
+      .filter((value): value is string => !!value);
+
+    const parts = [...exclude];
+    if (include.length > 0) {
+      parts.unshift(include.length > 1 && exclude.length > 0 ? `(${include.join('|')})` : include.join('|'));
+    }
+    return parts.length > 0 ? parts.join('&') : undefined;
+  }
+}
@@ -1,83 +1,59 @@
-import { spawn } from 'child_process';
 import { promises as fs } from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { XMLParser } from 'fast-xml-parser';
+import { runShellCommand } from '../util/process';
+import { findParser, mergeResults, resultFileExtensions, TestResultFormatSetting } from './parsers';
+import { TestRunResult } from './types';
 
-export const DEFAULT_RESULTS_DIRECTORY = 'deepseek_test_results';
-
-export interface TestFailure {
-  testName: string;
-  message?: string;
-  stackTrace?: string;
-}
+export * from './types';
+export { isResultFormat, mergeResults, RESULT_FORMATS, TestResultFormatSetting } from './parsers';
 
-export interface TestSummary {
-  passed: number;
-  failed: number;
-  skipped: number;
-  total: number;
-  durationMs: number;
-}
+export const DEFAULT_RESULTS_DIRECTORY = 'deepseek_test_results';
+const RESULT_MTIME_TOLERANCE_MS = 1000;
 
-export interface TestRunResult {
-  success: boolean;
-  failures: TestFailure[];
-  summary: TestSummary;
-  resultsFile?: string;
+export interface RunTestsOptions {
+  token?: vscode.CancellationToken;
+  timeoutMs?: number;
+  resultFormat?: TestResultFormatSetting;
 }
 
 export async function runTests(
   command: string,
   cwd: string,
-  output: vscode.OutputChannel
+  output: vscode.OutputChannel,
+  options: RunTestsOptions = {}
 ): Promise<TestRunResult> {
-  const resultsDir = parseResultsDirectory(command) ?? path.join(cwd, DEFAULT_RESULTS_DIRECTORY);
+  // A relative --results-directory is relative to where the command runs, not to the extension host.
+  const resultsDir = path.resolve(cwd, parseResultsDirectory(command) ?? DEFAULT_RESULTS_DIRECTORY);
   await ensureDirectory(resultsDir);
 
-  return new Promise<TestRunResult>((resolve) => {
-    const child = spawn(command, { cwd, shell: true });
-    const logs: Array<string> = [];
-
-    child.stdout.on('data', (data: Buffer) => {
-      const text = data.toString();
-      logs.push(text);
-      output.append(text);
-    });
-
-    child.stderr.on('data', (data: Buffer) => {
-      const text = data.toString();
-      logs.push(text);
-      output.append(text);
-    });
+  const startedAt = Date.now();
+  const { exitCode, output: consoleOutput } = await runShellCommand(command, cwd, output, {
+    token: options.token,
+    timeoutMs: options.timeoutMs,
+    label: 'Test run'
+  });
 
-    child.on('close', async (code) => {
-      const trx = await findLatestTrx(resultsDir);
-      if (trx) {
-        try {
-          const parsed = await parseTrx(trx);
-          parsed.success = isSuccessful(code, parsed.failures.length);
-          resolve(parsed);
-          return;
-        } catch (err) {
-          output.appendLine(`Failed to parse TRX: ${(err as Error).message}`);
-        }
-      }
+  const parsed = await parseResults(resultsDir, startedAt, consoleOutput, options.resultFormat ?? 'auto', output);
+  if (parsed) {
+    parsed.success = isSuccessful(exitCode, parsed.failures.length) && parsed.summary.failed === 0;
+    return parsed;
+  }
 
-      const failedCount = code && code !== 0 ? 1 : 0;
-      resolve({
-        success: isSuccessful(code, failedCount),
-        failures: [],
-        summary: {
-          passed: 0,
-          failed: failedCount,
-          skipped: 0,
-          total: failedCount,
-          durationMs: 0
-        }
-      });
-    });
-  });
+  const failedCount = exitCode && exitCode !== 0 ? 1 : 0;
+  return {
+    success: isSuccessful(exitCode, failedCount),
+    failures: [],
+    tests: [],
+    projects: [],
+    summary: {
+      passed: 0,
+      failed: failedCount,
+      skipped: 0,
+      total: failedCount,
+      durationMs: 0
+    }
+  };
 }
 
 async function ensureDirectory(dir: string): Promise<void> {
@@ -97,96 +73,57 @@ function parseResultsDirectory(command: string): string | undefined {
   return raw.replace(/^['"]|['"]$/g, '');
 }
 
-async function findLatestTrx(resultsDir: string): Promise<string | undefined> {
-  try {
-    const files = await fs.readdir(resultsDir);
-    const trxFiles = files.filter((f) => f.toLowerCase().endsWith('.trx'));
-    if (trxFiles.length === 0) {
-      return undefined;
+async function parseResults(
+  resultsDir: string,
+  startedAt: number,
+  consoleOutput: string,
+  format: TestResultFormatSetting,
+  output: vscode.OutputChannel
+): Promise<TestRunResult | undefined> {
+  const parsed: TestRunResult[] = [];
+  for (const file of await findResultFiles(resultsDir, startedAt, resultFileExtensions(format))) {
+    try {
+      const source = { file, content: await fs.readFile(file, 'utf8') };
+      const result = findParser(source, format)?.parse(source);
+      if (result) {
+        parsed.push(result);
+      }
+    } catch (err) {
+      output.appendLine(`Failed to parse test results ${file}: ${(err as Error).message}`);
     }
-    const stats = await Promise.all(
-      trxFiles.map(async (file) => ({
-        file,
-        time: (await fs.stat(path.join(resultsDir, file))).mtimeMs
-      }))
-    );
-    const latest = stats.sort((a, b) => b.time - a.time)[0];
-    return path.join(resultsDir, latest.file);
-  } catch {
-    return undefined;
   }
-}
-
-async function parseTrx(trxPath: string): Promise<TestRunResult> {
-  const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_' });
-  const content = await fs.readFile(trxPath, 'utf8');
-  const json = parser.parse(content) as {
-    TestRun?: {
-      Results?: { UnitTestResult?: unknown };
-    };
-  };
-
-  const results = toArray(json.TestRun?.Results?.UnitTestResult) as Array<Record<string, unknown>>;
-  const failures: TestFailure[] = [];
-  let passed = 0;
-  let skipped = 0;
-  let durationMs = 0;
-
-  for (const result of results) {
-    const outcome = String(result['@_outcome'] ?? '').toLowerCase();
-    const testName = String(result['@_testName'] ?? 'Unknown test');
-    const duration = parseDuration(String(result['@_duration'] ?? ''));
-
-    if (duration) {
-      durationMs += duration;
-    }
+  if (parsed.length > 0) {
+    return mergeResults(parsed);
+  }
 
-    if (outcome === 'passed') {
-      passed += 1;
-    } else if (outcome === 'notexecuted' || outcome === 'skipped') {
-      skipped += 1;
-    } else {
-      failures.push({
-        testName,
-        message: (result.Output as { ErrorInfo?: { Message?: string } })?.ErrorInfo?.Message,
-        stackTrace: (result.Output as { ErrorInfo?: { StackTrace?: string } })?.ErrorInfo?.StackTrace
-      });
-    }
+  if (format === 'auto' || format === 'console') {
+    const source = { content: consoleOutput };
+    return findParser(source, format)?.parse(source);
   }
+  return undefined;
+}
 
-  const total = results.length;
-  const summary: TestSummary = {
-    passed,
-    failed: failures.length,
-    skipped,
-    total,
-    durationMs
+// Only files written by the current run count: a run that produces no result file must not report stale results.
+async function findResultFiles(resultsDir: string, since: number, extensions: string[]): Promise<string[]> {
+  const files: Array<{ file: string; time: number }> = [];
+  const visit = async (dir: string) => {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const file = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await visit(file);
+      } else if (extensions.includes(path.extname(entry.name).toLowerCase())) {
+        const time = (await fs.stat(file)).mtimeMs;
+        if (time >= since - RESULT_MTIME_TOLERANCE_MS) {
+          files.push({ file, time });
+        }
+      }
+    }
   };
-
-  return { success: failures.length === 0, failures, summary, resultsFile: trxPath };
+  await visit(resultsDir);
+  return files.sort((a, b) => a.time - b.time).map((entry) => entry.file);
 }
 
 function isSuccessful(exitCode: number | null, failureCount: number): boolean {
   return failureCount === 0 && (exitCode === 0 || exitCode === null);
 }
-
-function parseDuration(duration: string): number {
-  // Format: HH:MM:SS.mmmmmm
-  const [hoursPart, minutesPart, secondsPart] = duration.split(':');
-  if (!hoursPart || !minutesPart || !secondsPart) {
-    return 0;
-  }
-  const [secondsStr, fraction = '0'] = secondsPart.split('.');
-  const hours = Number(hoursPart) || 0;
-  const minutes = Number(minutesPart) || 0;
-  const seconds = Number(secondsStr) || 0;
-  const milliseconds = Number(fraction.padEnd(3, '0').slice(0, 3)) || 0;
-  return hours * 3600000 + minutes * 60000 + seconds * 1000 + milliseconds;
-}
-
-function toArray<T>(value: unknown): T[] {
-  if (!value) {
-    return [];
-  }
-  return Array.isArray(value) ? value : [value as T];
-}
@@ -0,0 +1,122 @@
+import { TestCaseResult, TestResultParser, TestResultSource, TestRunResult, TestSummary } from '../types';
+import { buildResult, emptySummary } from './shared';
+
+const RESULT_LINE = /^\s*(Passed|Failed|Skipped)\s+(\S.*?)\s+\[([^\]]*)\]\s*$/;
+const SUMMARY_LINE =
+  /^\s*(?:Passed|Failed)!\s+-\s+Failed:\s*(\d+),\s*Passed:\s*(\d+),\s*Skipped:\s*(\d+),\s*Total:\s*(\d+)(?:,\s*Duration:\s*([^-]+?))?(?:\s+-\s+(\S+))?\s*(?:\(.*\))?\s*$/;
+const SECTION_LINE = /^\s*(Error Message|Stack Trace|Standard Output Messages|Standard Error Messages):\s*$/;
+
+type Section = 'message' | 'stackTrace' | 'stdout' | 'stderr';
+
+const SECTIONS: Record<string, Section> = {
+  'Error Message': 'message',
+  'Stack Trace': 'stackTrace',
+  'Standard Output Messages': 'stdout',
+  'Standard Error Messages': 'stderr'
+};
+
+// Last resort for runs that write no result file: scrape the `dotnet test` console output.
+export class ConsoleResultParser implements TestResultParser {
+  readonly format = 'console';
+  readonly fileExtensions: string[] = [];
+
+  canParse(source: TestResultSource): boolean {
+    return source.content.split(/\r?\n/).some((line) => RESULT_LINE.test(line) || SUMMARY_LINE.test(line));
+  }
+
+  parse(source: TestResultSource): TestRunResult | undefined {
+    const tests: TestCaseResult[] = [];
+    const projects: Array<{ project: string; summary: TestSummary }> = [];
+    let current: { test: TestCaseResult; section?: Section; lines: Partial<Record<Section, string[]>> } | undefined;
+
+    const finish = () => {
+      if (current) {
+        for (const [section, lines] of Object.entries(current.lines) as Array<[Section, string[]]>) {
+          const text = lines.join('\n').trim();
+          if (text) {
+            current.test[section] = text;
+          }
+        }
+        tests.push(current.test);
+        current = undefined;
+      }
+    };
+
+    for (const line of source.content.split(/\r?\n/)) {
+      const summary = line.match(SUMMARY_LINE);
+      if (summary) {
+        finish();
+        const project = (summary[6] ?? `Project ${projects.length + 1}`).replace(/\.dll$/i, '');
+        projects.push({
+          project,
+          summary: {
+            failed: Number(summary[1]),
+            passed: Number(summary[2]),
+            skipped: Number(summary[3]),
+            total: Number(summary[4]),
+            durationMs: parseConsoleDuration(summary[5] ?? '')
+          }
+        });
+        // Test lines precede the summary of the project they belong to.
+        tests.filter((test) => !test.project).forEach((test) => (test.project = project));
+        continue;
+      }
+
+      const result = line.match(RESULT_LINE);
+      if (result) {
+        finish();
+        current = {
+          test: {
+            testName: result[2],
+            outcome: result[1].toLowerCase() as TestCaseResult['outcome'],
+            durationMs: parseConsoleDuration(result[3])
+          },
+          lines: {}
+        };
+        continue;
+      }
+
+      if (!current) {
+        continue;
+      }
+      const section = line.match(SECTION_LINE);
+      if (section) {
+        current.section = SECTIONS[section[1]];
+        current.lines[current.section] = [];
+      } else if (current.section) {
+        current.lines[current.section]?.push(line.replace(/^\s{0,2}/, ''));
+      }
+    }
+    finish();
+
+    if (tests.length === 0 && projects.length === 0) {
+      return undefined;
+    }
+
+    const result = buildResult(tests, undefined, projects[0]?.project ?? 'Tests');
+    if (projects.length > 0) {
+      // Passing tests are only listed at detailed verbosity, so the summary lines are authoritative.
+      const summary = emptySummary();
+      for (const project of projects) {
+        summary.passed += project.summary.passed;
+        summary.failed += project.summary.failed;
+        summary.skipped += project.summary.skipped;
+        summary.total += project.summary.total;
+        summary.durationMs += project.summary.durationMs;
+      }
+      result.summary = summary;
+      result.projects = projects;
+      result.success = summary.failed === 0 && result.failures.length === 0;
+    }
+    return result;
+  }
+}
+
+function parseConsoleDuration(text: string): number {
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+  let total = 0;
+  for (const match of text.matchAll(/(\d+(?:\.\d+)?)\s*(ms|s|m|h)\b/g)) {
+    total += Number(match[1]) * units[match[2]];
+  }
+  return Math.round(total);
+}
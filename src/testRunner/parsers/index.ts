@@ -0,0 +1,34 @@
+import { TestResultFormat, TestResultParser, TestResultSource } from '../types';
+import { ConsoleResultParser } from './console';
+import { JUnitResultParser } from './junit';
+import { TrxResultParser } from './trx';
+
+export { mergeResults } from './shared';
+
+export type TestResultFormatSetting = TestResultFormat | 'auto';
+
+export const RESULT_FORMATS: TestResultFormatSetting[] = ['auto', 'trx', 'junit', 'console'];
+
+const PARSERS: TestResultParser[] = [new TrxResultParser(), new JUnitResultParser(), new ConsoleResultParser()];
+
+export function resultFileExtensions(format: TestResultFormatSetting): string[] {
+  return PARSERS.filter((parser) => format === 'auto' || parser.format === format).flatMap(
+    (parser) => parser.fileExtensions
+  );
+}
+
+export function findParser(source: TestResultSource, format: TestResultFormatSetting): TestResultParser | undefined {
+  if (format !== 'auto') {
+    return PARSERS.find((parser) => parser.format === format);
+  }
+  const extension = source.file?.slice(source.file.lastIndexOf('.')).toLowerCase();
+  return PARSERS.find(
+    (parser) =>
+      (source.file ? !!extension && parser.fileExtensions.includes(extension) : parser.fileExtensions.length === 0) &&
+      parser.canParse(source)
+  );
+}
+
+export function isResultFormat(value: unknown): value is TestResultFormatSetting {
+  return typeof value === 'string' && (RESULT_FORMATS as string[]).includes(value);
+}
@@ -0,0 +1,63 @@
+import * as path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import { TestCaseResult, TestResultParser, TestResultSource, TestRunResult } from '../types';
+import { buildResult, textOf, toArray } from './shared';
+
+type XmlNode = Record<string, unknown>;
+
+export class JUnitResultParser implements TestResultParser {
+  readonly format = 'junit';
+  readonly fileExtensions = ['.xml'];
+
+  canParse(source: TestResultSource): boolean {
+    return /<testsuites?\b/.test(source.content);
+  }
+
+  parse(source: TestResultSource): TestRunResult | undefined {
+    const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_' });
+    const json = parser.parse(source.content) as { testsuites?: { testsuite?: unknown }; testsuite?: unknown };
+    const suites = toArray<XmlNode>(json.testsuites?.testsuite ?? json.testsuite);
+    if (suites.length === 0) {
+      return undefined;
+    }
+
+    const fallbackProject = source.file ? path.basename(source.file, path.extname(source.file)) : 'Tests';
+    const tests = collectSuites(suites).flatMap((suite) => {
+      const project = suite['@_name'] ? path.basename(String(suite['@_name'])).replace(/\.dll$/i, '') : undefined;
+      return toArray<XmlNode>(suite.testcase).map((testCase) => toTestCase(testCase, project ?? fallbackProject));
+    });
+    return buildResult(tests, source.file, fallbackProject);
+  }
+}
+
+function collectSuites(suites: XmlNode[]): XmlNode[] {
+  return suites.flatMap((suite) => [suite, ...collectSuites(toArray<XmlNode>(suite.testsuite))]);
+}
+
+function toTestCase(testCase: XmlNode, project: string): TestCaseResult {
+  const className = testCase['@_classname'] ? String(testCase['@_classname']) : undefined;
+  const name = String(testCase['@_name'] ?? 'Unknown test');
+  const problem = (testCase.failure ?? testCase.error) as XmlNode | string | undefined;
+
+  const test: TestCaseResult = {
+    testName: className && !name.startsWith(`${className}.`) ? `${className}.${name}` : name,
+    className,
+    methodName: name.startsWith(`${className}.`) ? name.slice(String(className).length + 1) : name,
+    project,
+    outcome: 'passed',
+    // JUnit reports durations in seconds.
+    durationMs: Math.round((Number(testCase['@_time']) || 0) * 1000),
+    stdout: textOf(testCase['system-out']),
+    stderr: textOf(testCase['system-err'])
+  };
+
+  if (problem !== undefined) {
+    test.outcome = 'failed';
+    test.message = typeof problem === 'object' ? textOf(problem['@_message']) : undefined;
+    test.stackTrace = textOf(problem);
+    test.message = test.message ?? test.stackTrace?.split(/\r?\n/)[0];
+  } else if (testCase.skipped !== undefined) {
+    test.outcome = 'skipped';
+  }
+  return test;
+}
@@ -0,0 +1,87 @@
+import { TestCaseResult, TestFailure, TestRunResult, TestSummary } from '../types';
+
+export function buildResult(tests: TestCaseResult[], resultsFile: string | undefined, project: string): TestRunResult {
+  const byProject = new Map<string, TestCaseResult[]>();
+  for (const test of tests) {
+    const key = test.project ?? project;
+    byProject.set(key, [...(byProject.get(key) ?? []), test]);
+  }
+  const failures = tests.filter((test) => test.outcome === 'failed').map(toFailure);
+
+  return {
+    success: failures.length === 0,
+    failures,
+    tests,
+    summary: summarize(tests),
+    projects: [...byProject.entries()].map(([name, entries]) => ({
+      project: name,
+      resultsFile,
+      summary: summarize(entries)
+    })),
+    resultsFile
+  };
+}
+
+export function mergeResults(results: TestRunResult[]): TestRunResult {
+  const summary = emptySummary();
+  for (const result of results) {
+    summary.passed += result.summary.passed;
+    summary.failed += result.summary.failed;
+    summary.skipped += result.summary.skipped;
+    summary.total += result.summary.total;
+    summary.durationMs += result.summary.durationMs;
+  }
+  return {
+    success: results.every((result) => result.success),
+    failures: results.flatMap((result) => result.failures),
+    tests: results.flatMap((result) => result.tests),
+    summary,
+    projects: results.flatMap((result) => result.projects),
+    resultsFile: results[results.length - 1]?.resultsFile
+  };
+}
+
+export function emptySummary(): TestSummary {
+  return { passed: 0, failed: 0, skipped: 0, total: 0, durationMs: 0 };
+}
+
+export function toArray<T>(value: unknown): T[] {
+  if (!value) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value as T];
+}
+
+export function textOf(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value === 'object') {
+    const text = (value as Record<string, unknown>)['#text'];
+    return text === undefined ? undefined : String(text);
+  }
+  return String(value);
+}
+
+function summarize(tests: TestCaseResult[]): TestSummary {
+  const summary = emptySummary();
+  for (const test of tests) {
+    summary[test.outcome] += 1;
+    summary.total += 1;
+    summary.durationMs += test.durationMs;
+  }
+  return summary;
+}
+
+function toFailure(test: TestCaseResult): TestFailure {
+  return {
+    testName: test.testName,
+    message: test.message,
+    stackTrace: test.stackTrace,
+    project: test.project,
+    className: test.className,
+    durationMs: test.durationMs,
+    stdout: test.stdout,
+    stderr: test.stderr
+  };
+}
@@ -0,0 +1,97 @@
+import * as path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import { TestCaseResult, TestResultParser, TestResultSource, TestRunResult } from '../types';
+import { buildResult, textOf, toArray } from './shared';
+
+type XmlNode = Record<string, unknown>;
+
+// Other outcomes (Inconclusive, Pending, NotExecuted, Disconnected, ...) did not fail, but did not pass either.
+const FAILED_OUTCOMES = ['failed', 'error', 'timeout', 'aborted'];
+const PASSED_OUTCOMES = ['passed', 'passedbutrunaborted', 'completed', 'warning'];
+
+export class TrxResultParser implements TestResultParser {
+  readonly format = 'trx';
+  readonly fileExtensions = ['.trx'];
+
+  canParse(source: TestResultSource): boolean {
+    return /<TestRun\b/.test(source.content);
+  }
+
+  parse(source: TestResultSource): TestRunResult | undefined {
+    const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '@_' });
+    const json = parser.parse(source.content) as {
+      TestRun?: {
+        Results?: { UnitTestResult?: unknown };
+        TestDefinitions?: { UnitTest?: unknown };
+      };
+    };
+    if (!json.TestRun) {
+      return undefined;
+    }
+
+    const definitions = new Map<string, XmlNode>();
+    for (const definition of toArray<XmlNode>(json.TestRun.TestDefinitions?.UnitTest)) {
+      definitions.set(String(definition['@_id'] ?? ''), definition);
+    }
+
+    const tests = flattenResults(toArray(json.TestRun.Results?.UnitTestResult)).map(({ result, parent }) =>
+      toTestCase(result, parent, definitions)
+    );
+    const fallbackProject = source.file ? path.basename(source.file, '.trx') : 'Tests';
+    return buildResult(tests, source.file, fallbackProject);
+  }
+}
+
+function toTestCase(result: XmlNode, parent: XmlNode | undefined, definitions: Map<string, XmlNode>): TestCaseResult {
+  const outcome = String(result['@_outcome'] ?? '').toLowerCase();
+  const output = result.Output as
+    | { ErrorInfo?: { Message?: unknown; StackTrace?: unknown }; StdOut?: unknown; StdErr?: unknown }
+    | undefined;
+  const definition = definitions.get(String(result['@_testId'] ?? parent?.['@_testId'] ?? ''));
+  const method = definition?.TestMethod as XmlNode | undefined;
+  const storage = definition?.['@_storage'] ? String(definition['@_storage']) : undefined;
+
+  const test: TestCaseResult = {
+    testName: String(result['@_testName'] ?? parent?.['@_testName'] ?? 'Unknown test'),
+    // MSTest stores an assembly-qualified class name.
+    className: method?.['@_className'] ? String(method['@_className']).split(',')[0].trim() : undefined,
+    methodName: method?.['@_name'] ? String(method['@_name']) : undefined,
+    storage,
+    project: storage ? path.basename(storage).replace(/\.dll$/i, '') : undefined,
+    outcome: 'skipped',
+    durationMs: parseDuration(String(result['@_duration'] ?? '')),
+    stdout: textOf(output?.StdOut),
+    stderr: textOf(output?.StdErr)
+  };
+
+  if (PASSED_OUTCOMES.includes(outcome)) {
+    test.outcome = 'passed';
+  } else if (FAILED_OUTCOMES.includes(outcome)) {
+    test.outcome = 'failed';
+    test.message = textOf(output?.ErrorInfo?.Message);
+    test.stackTrace = textOf(output?.ErrorInfo?.StackTrace);
+  }
+  return test;
+}
+
+// Data-driven tests (MSTest DataRow, for instance) nest one row per inner result under an aggregate result.
+function flattenResults(results: XmlNode[], parent?: XmlNode): Array<{ result: XmlNode; parent?: XmlNode }> {
+  return results.flatMap((result) => {
+    const inner = toArray<XmlNode>((result.InnerResults as { UnitTestResult?: unknown } | undefined)?.UnitTestResult);
+    return inner.length > 0 ? flattenResults(inner, result) : [{ result, parent }];
+  });
+}
+
+function parseDuration(duration: string): number {
+  // Format: HH:MM:SS.mmmmmm
+  const [hoursPart, minutesPart, secondsPart] = duration.split(':');
+  if (!hoursPart || !minutesPart || !secondsPart) {
+    return 0;
+  }
+  const [secondsStr, fraction = '0'] = secondsPart.split('.');
+  const hours = Number(hoursPart) || 0;
+  const minutes = Number(minutesPart) || 0;
+  const seconds = Number(secondsStr) || 0;
+  const milliseconds = Number(fraction.padEnd(3, '0').slice(0, 3)) || 0;
+  return hours * 3600000 + minutes * 60000 + seconds * 1000 + milliseconds;
+}
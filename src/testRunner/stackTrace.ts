@@ -0,0 +1,28 @@
+export interface StackFrame {
+  method: string;
+  file: string;
+  line: number;
+}
+
+const FRAME_PATTERN = /^\s*at\s+(.+?)\s+in\s+(.+?):(?:line\s+)?(\d+)\s*$/;
+
+export function parseStackTrace(stackTrace: string | undefined): StackFrame[] {
+  if (!stackTrace) {
+    return [];
+  }
+  const frames: StackFrame[] = [];
+  for (const line of stackTrace.split(/\r?\n/)) {
+    const match = line.match(FRAME_PATTERN);
+    if (match) {
+      frames.push({ method: match[1], file: match[2], line: Number(match[3]) });
+    }
+  }
+  return frames;
+}
+
+export function splitTestName(testName: string): { className?: string; methodName: string } {
+  const withoutArguments = testName.replace(/\(.*\)\s*$/, '');
+  const segments = withoutArguments.split('.');
+  const methodName = segments.pop() ?? withoutArguments;
+  return { className: segments.pop(), methodName };
+}
@@ -0,0 +1,63 @@
+export interface TestFailure {
+  testName: string;
+  message?: string;
+  stackTrace?: string;
+  project?: string;
+  className?: string;
+  durationMs?: number;
+  stdout?: string;
+  stderr?: string;
+}
+
+export type TestOutcome = 'passed' | 'failed' | 'skipped';
+
+export interface TestCaseResult {
+  testName: string;
+  className?: string;
+  methodName?: string;
+  storage?: string;
+  project?: string;
+  outcome: TestOutcome;
+  durationMs: number;
+  message?: string;
+  stackTrace?: string;
+  stdout?: string;
+  stderr?: string;
+}
+
+export interface TestSummary {
+  passed: number;
+  failed: number;
+  skipped: number;
+  total: number;
+  durationMs: number;
+}
+
+export interface ProjectTestSummary {
+  project: string;
+  resultsFile?: string;
+  summary: TestSummary;
+}
+
+export interface TestRunResult {
+  success: boolean;
+  failures: TestFailure[];
+  tests: TestCaseResult[];
+  summary: TestSummary;
+  projects: ProjectTestSummary[];
+  resultsFile?: string;
+}
+
+export type TestResultFormat = 'trx' | 'junit' | 'console';
+
+export interface TestResultSource {
+  content: string;
+  file?: string;
+}
+
+export interface TestResultParser {
+  readonly format: TestResultFormat;
+  readonly fileExtensions: string[];
+  canParse(source: TestResultSource): boolean;
+  parse(source: TestResultSource): TestRunResult | undefined;
+}
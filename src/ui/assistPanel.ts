@@ -0,0 +1,76 @@
+import { randomBytes } from 'crypto';
+import * as vscode from 'vscode';
+import { PromptBudget } from '../llm/tokens';
+import { ChatTurn, PanelAction, renderConversation, renderShell, renderState, WebviewState } from './webview';
+
+export type PanelMessage = { type: 'ask'; text: string } | { type: 'action'; action: PanelAction };
+
+type WebviewMessage = PanelMessage | { type: 'ready' };
+
+export class AssistPanel implements vscode.Disposable {
+  private panel: vscode.WebviewPanel | undefined;
+  private state: WebviewState = { status: 'Idle' };
+  private conversation: ChatTurn[] = [];
+  private actions: PanelAction[] = [];
+  private budget: PromptBudget | undefined;
+  private readonly messageEmitter = new vscode.EventEmitter<PanelMessage>();
+  readonly onDidReceiveMessage = this.messageEmitter.event;
+
+  show(): void {
+    if (this.panel) {
+      this.panel.reveal(vscode.ViewColumn.Beside, true);
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'deepseekCSharpAssistant',
+      'DeepSeek C# Assistant',
+      { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+      { enableScripts: true, retainContextWhenHidden: true, localResourceRoots: [] }
+    );
+    panel.webview.html = renderShell(panel.webview.cspSource, randomBytes(16).toString('base64'));
+    panel.webview.onDidReceiveMessage((message: WebviewMessage) => {
+      if (message.type === 'ready') {
+        this.flush();
+      } else {
+        this.messageEmitter.fire(message);
+      }
+    });
+    panel.onDidDispose(() => {
+      this.panel = undefined;
+    });
+    this.panel = panel;
+  }
+
+  update(state: WebviewState): void {
+    this.state = state;
+    void this.panel?.webview.postMessage({ type: 'state', html: renderState({ budget: this.budget, ...state }) });
+  }
+
+  // Shown with every state update until the next request replaces it.
+  setBudget(budget: PromptBudget | undefined): void {
+    this.budget = budget;
+    this.update(this.state);
+  }
+
+  setConversation(turns: ChatTurn[]): void {
+    this.conversation = turns;
+    void this.panel?.webview.postMessage({ type: 'conversation', html: renderConversation(turns) });
+  }
+
+  setActions(actions: PanelAction[]): void {
+    this.actions = actions;
+    void this.panel?.webview.postMessage({ type: 'actions', enabled: actions });
+  }
+
+  dispose(): void {
+    this.panel?.dispose();
+    this.messageEmitter.dispose();
+  }
+
+  private flush(): void {
+    this.update(this.state);
+    this.setConversation(this.conversation);
+    this.setActions(this.actions);
+  }
+}
@@ -0,0 +1,103 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BatchSite, BatchSiteStatus, BatchStore } from '../batch';
+import { deserializeRange } from '../history';
+
+export const BATCH_PREVIEW_SCHEME = 'deepseek-batch';
+
+const STATUS_ICONS: Record<BatchSiteStatus, string> = {
+  pending: 'circle-outline',
+  generating: 'sync~spin',
+  proposed: 'diff',
+  accepted: 'check',
+  rejected: 'close',
+  failed: 'error'
+};
+
+export class BatchItem extends vscode.TreeItem {
+  constructor(readonly site: BatchSite) {
+    super(site.label, vscode.TreeItemCollapsibleState.None);
+    const file = path.basename(vscode.Uri.parse(site.fileUri).fsPath);
+    this.description = `${file}:${site.range.startLine + 1} · ${site.status}`;
+    this.tooltip = new vscode.MarkdownString(
+      site.error
+        ? `**${site.label}**\n\n${site.error}`
+        : [`**${site.label}**`, '```csharp', site.code ?? site.originalText, '```'].join('\n\n')
+    );
+    this.contextValue = `batchSite.${site.status}`;
+    this.iconPath = new vscode.ThemeIcon(STATUS_ICONS[site.status]);
+    this.command = {
+      command: 'deepseekCSharp.previewBatchSite',
+      title: 'Preview Proposal',
+      arguments: [this]
+    };
+  }
+}
+
+export class BatchTreeProvider implements vscode.TreeDataProvider<BatchItem>, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<BatchItem | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+  private readonly subscription: vscode.Disposable;
+
+  constructor(private readonly store: BatchStore) {
+    this.subscription = store.onDidChange(() => this.changeEmitter.fire(undefined));
+  }
+
+  getTreeItem(element: BatchItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: BatchItem): BatchItem[] {
+    if (element) {
+      return [];
+    }
+    return (this.store.get()?.sites ?? []).map((site) => new BatchItem(site));
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this.changeEmitter.dispose();
+  }
+}
+
+// Read-only previews: decisions are made from the batch view, so closing a diff never rejects a site.
+export class BatchPreview implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private readonly previews = new Map<string, string>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.changeEmitter.event;
+  private readonly registration: vscode.Disposable;
+
+  constructor() {
+    this.registration = vscode.workspace.registerTextDocumentContentProvider(BATCH_PREVIEW_SCHEME, this);
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.previews.get(uri.toString()) ?? '';
+  }
+
+  async show(site: BatchSite): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(site.fileUri));
+    const range = document.validateRange(deserializeRange(site.range));
+    const uri = vscode.Uri.from({ scheme: BATCH_PREVIEW_SCHEME, path: document.uri.path, query: site.id });
+    const text = document.getText();
+    const proposed = site.code ?? site.originalText;
+    this.previews.set(
+      uri.toString(),
+      text.slice(0, document.offsetAt(range.start)) + proposed + text.slice(document.offsetAt(range.end))
+    );
+    this.changeEmitter.fire(uri);
+
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      document.uri,
+      uri,
+      `${path.basename(document.uri.fsPath)} ↔ DeepSeek batch: ${site.label}`,
+      { preview: true, selection: new vscode.Range(range.start, range.start) }
+    );
+  }
+
+  dispose(): void {
+    this.registration.dispose();
+    this.changeEmitter.dispose();
+  }
+}
@@ -0,0 +1,147 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export const PROPOSAL_SCHEME = 'deepseek-proposal';
+
+export type ProposalDecision = { kind: 'accept'; content: string } | { kind: 'reject' };
+
+interface PendingProposal {
+  uri: vscode.Uri;
+  text: string;
+  generated: string;
+  generatedStart: number;
+  opened: boolean;
+  resolve: (decision: ProposalDecision) => void;
+}
+
+export class ProposalPreview implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private readonly proposals = new Map<string, PendingProposal>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.changeEmitter.event;
+  private readonly disposables: vscode.Disposable[];
+  private counter = 0;
+
+  constructor() {
+    this.disposables = [
+      vscode.workspace.registerTextDocumentContentProvider(PROPOSAL_SCHEME, this),
+      vscode.window.tabGroups.onDidChangeTabs(() => this.rejectClosedProposals())
+    ];
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.proposals.get(uri.toString())?.text ?? '';
+  }
+
+  async show(document: vscode.TextDocument, range: vscode.Range, generated: string): Promise<ProposalDecision> {
+    const original = document.getText();
+    const start = document.offsetAt(range.start);
+    const end = document.offsetAt(range.end);
+    const uri = vscode.Uri.from({
+      scheme: PROPOSAL_SCHEME,
+      path: document.uri.path,
+      query: String((this.counter += 1))
+    });
+
+    const decision = new Promise<ProposalDecision>((resolve) => {
+      this.proposals.set(uri.toString(), {
+        uri,
+        text: original.slice(0, start) + generated + original.slice(end),
+        generated,
+        generatedStart: start,
+        opened: false,
+        resolve
+      });
+    });
+
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      document.uri,
+      uri,
+      `${path.basename(document.uri.fsPath)} ↔ DeepSeek proposal`,
+      { preview: true, selection: new vscode.Range(range.start, range.start) }
+    );
+    const pending = this.proposals.get(uri.toString());
+    if (pending) {
+      pending.opened = true;
+    }
+
+    return decision;
+  }
+
+  isProposal(uri: vscode.Uri | undefined): boolean {
+    return !!uri && this.proposals.has(uri.toString());
+  }
+
+  async accept(uri: vscode.Uri): Promise<void> {
+    const proposal = this.proposals.get(uri.toString());
+    if (proposal) {
+      await this.settle(proposal, { kind: 'accept', content: proposal.generated });
+    }
+  }
+
+  async acceptPartially(uri: vscode.Uri, selections: readonly vscode.Selection[]): Promise<boolean> {
+    const proposal = this.proposals.get(uri.toString());
+    const document = vscode.workspace.textDocuments.find((doc) => doc.uri.toString() === uri.toString());
+    if (!proposal || !document) {
+      return false;
+    }
+
+    const generatedEnd = proposal.generatedStart + proposal.generated.length;
+    const parts = selections
+      .filter((selection) => !selection.isEmpty)
+      .map((selection) => ({
+        start: Math.max(document.offsetAt(document.lineAt(selection.start.line).range.start), proposal.generatedStart),
+        end: Math.min(document.offsetAt(document.lineAt(selection.end.line).rangeIncludingLineBreak.end), generatedEnd)
+      }))
+      .filter((part) => part.start < part.end)
+      .sort((a, b) => a.start - b.start)
+      .map((part) => proposal.text.slice(part.start, part.end));
+
+    if (parts.length === 0) {
+      return false;
+    }
+
+    await this.settle(proposal, { kind: 'accept', content: parts.join('') });
+    return true;
+  }
+
+  async reject(uri: vscode.Uri): Promise<void> {
+    const proposal = this.proposals.get(uri.toString());
+    if (proposal) {
+      await this.settle(proposal, { kind: 'reject' });
+    }
+  }
+
+  dispose(): void {
+    for (const proposal of this.proposals.values()) {
+      proposal.resolve({ kind: 'reject' });
+    }
+    this.proposals.clear();
+    this.changeEmitter.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  private async settle(proposal: PendingProposal, decision: ProposalDecision): Promise<void> {
+    this.proposals.delete(proposal.uri.toString());
+    proposal.resolve(decision);
+    const tabs = this.findTabs(proposal.uri);
+    if (tabs.length > 0) {
+      await vscode.window.tabGroups.close(tabs);
+    }
+  }
+
+  private rejectClosedProposals(): void {
+    for (const proposal of [...this.proposals.values()]) {
+      if (proposal.opened && this.findTabs(proposal.uri).length === 0) {
+        this.proposals.delete(proposal.uri.toString());
+        proposal.resolve({ kind: 'reject' });
+      }
+    }
+  }
+
+  private findTabs(uri: vscode.Uri): vscode.Tab[] {
+    return vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .filter((tab) => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === uri.toString());
+  }
+}
@@ -0,0 +1,84 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FileEditPlan } from '../edits';
+
+export const EDIT_PREVIEW_SCHEME = 'deepseek-edit';
+
+// Shows a multi-file change one diff at a time; nothing is applied until every file has been decided.
+export class EditPlanPreview implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private readonly contents = new Map<string, string>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.changeEmitter.event;
+  private readonly registration: vscode.Disposable;
+  private counter = 0;
+
+  constructor() {
+    this.registration = vscode.workspace.registerTextDocumentContentProvider(EDIT_PREVIEW_SCHEME, this);
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+
+  // Resolves to the accepted plans, or undefined when the review was cancelled.
+  async review(plans: FileEditPlan[]): Promise<FileEditPlan[] | undefined> {
+    const accepted: FileEditPlan[] = [];
+    for (const [index, plan] of plans.entries()) {
+      const name = vscode.workspace.asRelativePath(plan.uri);
+      const title = `${path.basename(plan.uri.fsPath)}${plan.create ? ' (new file)' : ''}`;
+      const proposed = this.register(plan.uri, 'proposed', plan.updated);
+      const original = plan.create ? this.register(plan.uri, 'original', '') : plan.uri;
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        original,
+        proposed,
+        `${title} ↔ DeepSeek edit ${index + 1}/${plans.length}`,
+        { preview: true, selection: new vscode.Range(plan.range.start, plan.range.start) }
+      );
+
+      const choice = await vscode.window.showInformationMessage(
+        `${plan.create ? 'Create' : 'Change'} ${name}? (${index + 1} of ${plans.length})`,
+        'Apply',
+        'Skip',
+        'Cancel All'
+      );
+      await this.close(proposed);
+      if (choice === 'Apply') {
+        accepted.push(plan);
+      } else if (choice !== 'Skip') {
+        return undefined;
+      }
+    }
+    return accepted;
+  }
+
+  dispose(): void {
+    this.registration.dispose();
+    this.changeEmitter.dispose();
+  }
+
+  private register(uri: vscode.Uri, side: string, content: string): vscode.Uri {
+    const preview = vscode.Uri.from({
+      scheme: EDIT_PREVIEW_SCHEME,
+      path: uri.path,
+      query: `${side}-${(this.counter += 1)}`
+    });
+    this.contents.set(preview.toString(), content);
+    this.changeEmitter.fire(preview);
+    return preview;
+  }
+
+  private async close(proposed: vscode.Uri): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+      .flatMap((group) => group.tabs)
+      .filter(
+        (tab) => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === proposed.toString()
+      );
+    if (tabs.length > 0) {
+      await vscode.window.tabGroups.close(tabs);
+    }
+    for (const key of [...this.contents.keys()].filter((entry) => vscode.Uri.parse(entry).path === proposed.path)) {
+      this.contents.delete(key);
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { GenerationHistory, GenerationRecord } from '../history';
+
+export class HistoryItem extends vscode.TreeItem {
+  constructor(readonly record: GenerationRecord) {
+    super(path.basename(vscode.Uri.parse(record.fileUri).fsPath), vscode.TreeItemCollapsibleState.None);
+    this.description = `${new Date(record.timestamp).toLocaleString()} · ${describeOutcome(record)}`;
+    this.tooltip = new vscode.MarkdownString(
+      [
+        `**${vscode.Uri.parse(record.fileUri).fsPath}** (line ${record.insertedRange.startLine + 1})`,
+        `Model: \`${record.model}\``,
+        '```csharp',
+        record.insertedText,
+        '```'
+      ].join('\n\n')
+    );
+    this.contextValue = record.rolledBack ? 'generation.rolledBack' : 'generation';
+    this.iconPath = new vscode.ThemeIcon(record.rolledBack ? 'discard' : iconForRecord(record));
+    this.command = {
+      command: 'deepseekCSharp.openHistoryEntry',
+      title: 'Open Generation',
+      arguments: [this]
+    };
+  }
+}
+
+export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryItem>, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<HistoryItem | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+  private readonly subscription: vscode.Disposable;
+
+  constructor(private readonly history: GenerationHistory) {
+    this.subscription = history.onDidChange(() => this.changeEmitter.fire(undefined));
+  }
+
+  getTreeItem(element: HistoryItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: HistoryItem): HistoryItem[] {
+    if (element) {
+      return [];
+    }
+    return this.history.list().map((record) => new HistoryItem(record));
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+    this.changeEmitter.dispose();
+  }
+}
+
+function describeOutcome(record: GenerationRecord): string {
+  if (record.rolledBack) {
+    return 'rolled back';
+  }
+  const summary = record.testResult?.summary;
+  if (!summary) {
+    return 'not tested';
+  }
+  return record.testResult?.success ? `passed (${summary.passed})` : `failed (${summary.failed})`;
+}
+
+function iconForRecord(record: GenerationRecord): string {
+  if (!record.testResult) {
+    return 'circle-outline';
+  }
+  return record.testResult.success ? 'pass' : 'error';
+}
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { EndpointSettings } from '../llm/endpoints';
+import { formatCost, formatTokens, UsageTotals } from '../usage';
+
+export class EndpointStatusBar implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem;
+
+  constructor(command: string) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+    this.item.command = command;
+  }
+
+  update(endpoint: EndpointSettings): void {
+    this.item.text = `$(hubot) ${endpoint.name}`;
+    this.item.tooltip = `DeepSeek endpoint: ${endpoint.name} (${endpoint.provider} · ${endpoint.model})\nClick to switch endpoint`;
+    this.item.show();
+  }
+
+  dispose(): void {
+    this.item.dispose();
+  }
+}
+
+export class UsageStatusBar implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem;
+
+  constructor(command: string) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+    this.item.command = command;
+  }
+
+  update(totals: UsageTotals, dailyBudget: number): void {
+    const tokens = formatTokens(totals.promptTokens + totals.completionTokens);
+    const cost = totals.cost > 0 || dailyBudget > 0 ? ` · ${formatCost(totals.cost)}` : '';
+    const over = dailyBudget > 0 && totals.cost >= dailyBudget;
+    this.item.text = `$(pulse) ${tokens}${cost}`;
+    this.item.tooltip = [
+      `DeepSeek usage today: ${totals.requests} request(s)`,
+      `Prompt tokens: ${totals.promptTokens}, completion tokens: ${totals.completionTokens}`,
+      `Cost: ${formatCost(totals.cost)}` + (dailyBudget > 0 ? ` of ${formatCost(dailyBudget)} daily budget` : ''),
+      'Click to open the usage report'
+    ].join('\n');
+    this.item.backgroundColor = over ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+    this.item.show();
+  }
+
+  dispose(): void {
+    this.item.dispose();
+  }
+}
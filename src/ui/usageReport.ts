@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { formatCost, sumUsage, today, UsageEntry, UsageTracker } from '../usage';
+
+export const USAGE_REPORT_URI = vscode.Uri.parse('deepseek-usage:DeepSeek%20Usage.md');
+
+export class UsageReportProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChange = this.changeEmitter.event;
+  private readonly disposables: vscode.Disposable[];
+
+  constructor(private readonly tracker: UsageTracker) {
+    this.disposables = [
+      vscode.workspace.registerTextDocumentContentProvider(USAGE_REPORT_URI.scheme, this),
+      tracker.onDidChange(() => this.changeEmitter.fire(USAGE_REPORT_URI))
+    ];
+  }
+
+  provideTextDocumentContent(): string {
+    return renderUsageReport(this.tracker.list());
+  }
+
+  dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.changeEmitter.dispose();
+  }
+}
+
+function renderUsageReport(entries: UsageEntry[]): string {
+  if (entries.length === 0) {
+    return '# DeepSeek Usage\n\nNo requests recorded yet.\n';
+  }
+
+  const day = today();
+  const sections = [
+    '# DeepSeek Usage',
+    renderTable(
+      'Today by command',
+      entries.filter((entry) => entry.day === day),
+      (entry) => entry.command
+    ),
+    renderTable('By day', entries, (entry) => entry.day, true),
+    renderTable('By model', entries, (entry) => entry.model),
+    renderTable('By workspace', entries, (entry) => entry.workspace),
+    renderTable('By command', entries, (entry) => entry.command)
+  ];
+  if (entries.some((entry) => entry.estimated)) {
+    sections.push('_Some counts are estimated because the endpoint did not report token usage._');
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+function renderTable(
+  title: string,
+  entries: UsageEntry[],
+  key: (entry: UsageEntry) => string,
+  newestFirst = false
+): string {
+  const groups = new Map<string, UsageEntry[]>();
+  for (const entry of entries) {
+    groups.set(key(entry), [...(groups.get(key(entry)) ?? []), entry]);
+  }
+  const rows = [...groups.entries()]
+    .map(([name, group]) => ({ name, totals: sumUsage(group) }))
+    .sort((a, b) => (newestFirst ? b.name.localeCompare(a.name) : b.totals.cost - a.totals.cost));
+
+  return [
+    `## ${title}`,
+    '',
+    '| | Requests | Prompt tokens | Completion tokens | Cost |',
+    '|---|---:|---:|---:|---:|',
+    ...rows.map(({ name, totals }) =>
+      [
+        name.replace(/\|/g, '\\|'),
+        totals.requests,
+        totals.promptTokens,
+        totals.completionTokens,
+        formatCost(totals.cost)
+      ].join(' | ')
+    ).map((row) => `| ${row} |`)
+  ].join('\n');
+}
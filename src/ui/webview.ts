@@ -1,21 +1,35 @@
-import { TestRunResult } from '../testRunner';
+import { PromptBudget } from '../llm/tokens';
+import { findPlaceholders } from '../redaction';
+import { RepairIteration } from '../repair';
+import { ProjectTestSummary, TestFailure, TestRunResult } from '../testRunner';
 
 export interface WebviewState {
   status: string;
   promptPreview?: string;
   generation?: string;
+  explanation?: string;
+  buildErrors?: string[];
   testResult?: TestRunResult;
+  iterations?: RepairIteration[];
+  warnings?: string[];
   error?: string;
+  budget?: PromptBudget;
 }
 
-export function renderWebview(state: WebviewState): string {
-  const failures = state.testResult?.failures ?? [];
-  const summary = state.testResult?.summary;
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export type PanelAction = 'insert' | 'retry' | 'copy' | 'runTests' | 'rollback';
 
+// Rendered once per panel; state and conversation updates arrive through postMessage.
+export function renderShell(cspSource: string, nonce: string): string {
   return /* html */ `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8" />
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';" />
   <meta name="viewport" content="width=device-width, initial-scale=1.0" />
   <style>
     body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; padding: 12px; color: #e6e9ef; background: #0f172a; }
@@ -24,20 +38,93 @@ export function renderWebview(state: WebviewState): string {
     pre { white-space: pre-wrap; background: #0b1220; padding: 8px; border-radius: 6px; border: 1px solid #1f2937; }
     .status { color: #a5b4fc; }
     .error { color: #fca5a5; }
+    .warning { color: #fcd34d; }
     .success { color: #34d399; }
     .failures { color: #f87171; }
     table { width: 100%; border-collapse: collapse; }
     td, th { border-bottom: 1px solid #1f2937; padding: 6px; text-align: left; }
+    details { margin-top: 6px; }
+    summary { cursor: pointer; }
+    .toolbar { display: flex; gap: 6px; flex-wrap: wrap; margin-bottom: 12px; }
+    button { background: #4f46e5; color: #fff; border: none; border-radius: 4px; padding: 4px 10px; cursor: pointer; }
+    button:disabled { background: #374151; cursor: default; }
+    .turn { margin-bottom: 8px; }
+    .turn.user { color: #a5b4fc; }
+    form { display: flex; gap: 6px; }
+    textarea { flex: 1; min-height: 48px; background: #0b1220; color: #e6e9ef; border: 1px solid #1f2937; border-radius: 6px; padding: 6px; }
   </style>
 </head>
 <body>
   <h1>DeepSeek C# Assistant</h1>
-  <div class="card">
+  <div class="toolbar">
+    <button data-action="insert">Insert</button>
+    <button data-action="retry">Retry</button>
+    <button data-action="copy">Copy</button>
+    <button data-action="runTests">Run tests</button>
+    <button data-action="rollback">Rollback</button>
+  </div>
+  <div id="state"></div>
+  <div id="conversation"></div>
+  <form id="ask">
+    <textarea id="question" placeholder="Ask a follow-up, e.g. &quot;make it async&quot; or &quot;use LINQ&quot;"></textarea>
+    <button type="submit">Send</button>
+  </form>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const question = document.getElementById('question');
+    document.querySelectorAll('[data-action]').forEach((button) =>
+      button.addEventListener('click', () => vscode.postMessage({ type: 'action', action: button.dataset.action }))
+    );
+    document.getElementById('ask').addEventListener('submit', (event) => {
+      event.preventDefault();
+      const text = question.value.trim();
+      if (text) {
+        vscode.postMessage({ type: 'ask', text });
+        question.value = '';
+      }
+    });
+    question.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+        document.getElementById('ask').requestSubmit();
+      }
+    });
+    window.addEventListener('message', (event) => {
+      const message = event.data;
+      if (message.type === 'state' || message.type === 'conversation') {
+        document.getElementById(message.type).innerHTML = message.html;
+      }
+      if (message.type === 'actions') {
+        document.querySelectorAll('[data-action]').forEach((button) => {
+          button.disabled = !message.enabled.includes(button.dataset.action);
+        });
+      }
+    });
+    vscode.postMessage({ type: 'ready' });
+  </script>
+</body>
+</html>`;
+}
+
+export function renderState(state: WebviewState): string {
+  const failures = state.testResult?.failures ?? [];
+  const summary = state.testResult?.summary;
+
+  return /* html */ `<div class="card">
     <div class="status">Status: ${escapeHtml(state.status)}</div>
+    ${state.budget ? renderBudget(state.budget) : ''}
     ${state.error ? `<div class="error">Error: ${escapeHtml(state.error)}</div>` : ''}
+    ${(state.warnings ?? []).map((warning) => `<div class="warning">Warning: ${escapeHtml(warning)}</div>`).join('')}
   </div>
-  ${state.promptPreview ? `<div class="card"><strong>Prompt</strong><pre>${escapeHtml(state.promptPreview)}</pre></div>` : ''}
+  ${state.promptPreview ? renderPrompt(state.promptPreview) : ''}
+  ${state.explanation ? `<div class="card"><strong>Explanation</strong><pre>${escapeHtml(state.explanation)}</pre></div>` : ''}
   ${state.generation ? `<div class="card"><strong>Generated Code</strong><pre>${escapeHtml(state.generation)}</pre></div>` : ''}
+  ${
+    state.buildErrors && state.buildErrors.length > 0
+      ? `<div class="card"><strong>Compiler Errors</strong><pre class="failures">${escapeHtml(
+          state.buildErrors.join('\n')
+        )}</pre></div>`
+      : ''
+  }
   ${
     state.testResult
       ? `<div class="card">
@@ -49,14 +136,17 @@ export function renderWebview(state: WebviewState): string {
                  </div>`
               : ''
           }
+          ${state.testResult.projects.length > 1 ? renderProjects(state.testResult.projects) : ''}
           ${
             failures.length > 0
               ? `<table>
-                  <thead><tr><th>Test</th><th>Message</th></tr></thead>
+                  <thead><tr><th>Test</th><th>Project</th><th>Duration</th><th>Message</th></tr></thead>
                   <tbody>${failures
                     .map(
                       (f) =>
-                        `<tr><td>${escapeHtml(f.testName)}</td><td>${escapeHtml(f.message ?? '')}</td></tr>`
+                        `<tr><td>${escapeHtml(f.testName)}</td><td>${escapeHtml(f.project ?? '')}</td><td>${
+                          f.durationMs !== undefined ? `${f.durationMs} ms` : ''
+                        }</td><td>${escapeHtml(f.message ?? '')}${renderOutput(f)}</td></tr>`
                     )
                     .join('')}</tbody>
                 </table>`
@@ -65,8 +155,79 @@ export function renderWebview(state: WebviewState): string {
         </div>`
       : ''
   }
-</body>
-</html>`;
+  ${state.iterations && state.iterations.length > 0 ? renderIterations(state.iterations) : ''}`;
+}
+
+export function renderConversation(turns: ChatTurn[]): string {
+  if (turns.length === 0) {
+    return '';
+  }
+  const rows = turns
+    .map(
+      (turn) =>
+        `<div class="turn ${turn.role}"><strong>${turn.role === 'user' ? 'You' : 'DeepSeek'}</strong><pre>${escapeHtml(
+          turn.content
+        )}</pre></div>`
+    )
+    .join('');
+  return `<div class="card"><strong>Conversation</strong>${rows}</div>`;
+}
+
+function renderPrompt(prompt: string): string {
+  const placeholders = findPlaceholders(prompt);
+  const redacted =
+    placeholders.length > 0
+      ? `<div class="warning">Redacted before sending: ${escapeHtml(placeholders.join(', '))}</div>`
+      : '';
+  return `<div class="card"><strong>Prompt</strong>${redacted}<pre>${escapeHtml(prompt)}</pre></div>`;
+}
+
+function renderBudget(budget: PromptBudget): string {
+  const reduced =
+    budget.maxTokens < budget.requestedMaxTokens ? ` (reduced from ${budget.requestedMaxTokens})` : '';
+  const overflow = budget.promptTokens + budget.maxTokens > budget.contextWindow;
+  return `<div class="${overflow ? 'warning' : 'status'}">Prompt: ~${budget.promptTokens} of ${
+    budget.contextWindow
+  } tokens, max output ${budget.maxTokens}${reduced}</div>${
+    budget.trimmed.length > 0
+      ? `<div class="warning">Trimmed to fit the context window: ${escapeHtml(budget.trimmed.join(', '))}</div>`
+      : ''
+  }`;
+}
+
+function renderProjects(projects: ProjectTestSummary[]): string {
+  const rows = projects
+    .map(
+      ({ project, summary }) =>
+        `<tr><td>${escapeHtml(project)}</td><td>${summary.passed}</td><td>${summary.failed}</td><td>${summary.skipped}</td><td>${summary.durationMs} ms</td></tr>`
+    )
+    .join('');
+  return `<table>
+    <thead><tr><th>Project</th><th>Passed</th><th>Failed</th><th>Skipped</th><th>Duration</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>`;
+}
+
+function renderOutput(failure: TestFailure): string {
+  const output = [failure.stdout, failure.stderr].filter((text) => text?.trim()).join('\n');
+  return output ? `<details><summary>Output</summary><pre>${escapeHtml(output)}</pre></details>` : '';
+}
+
+function renderIterations(iterations: RepairIteration[]): string {
+  const rows = iterations
+    .map((iteration) => {
+      const label = iteration.attempt === 0 ? 'Original generation' : `Repair attempt ${iteration.attempt}`;
+      const summary = iteration.testResult?.summary;
+      const outcome = iteration.error
+        ? `<span class="error">${escapeHtml(iteration.error)}</span>`
+        : summary
+          ? `<span class="${iteration.testResult?.success ? 'success' : 'failures'}">Passed: ${summary.passed}, Failed: ${summary.failed}</span>`
+          : 'No test result';
+      const code = iteration.code ? `<pre>${escapeHtml(iteration.code)}</pre>` : '';
+      return `<details><summary>${label} — ${outcome}</summary>${code}</details>`;
+    })
+    .join('');
+  return `<div class="card"><strong>Repair Attempts</strong>${rows}</div>`;
 }
 
 function escapeHtml(value: string): string {
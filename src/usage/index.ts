@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+
+export interface ModelPrice {
+  // Price per million tokens.
+  input: number;
+  output: number;
+}
+
+export interface UsageEntry {
+  day: string;
+  model: string;
+  workspace: string;
+  command: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  estimated: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export type UsageSample = Omit<UsageEntry, 'day' | 'requests' | 'cost'>;
+
+export type BudgetAction = 'warn' | 'block';
+
+export class BudgetExceededError extends Error {
+  constructor(budget: number, spent: number) {
+    super(
+      `Daily DeepSeek budget of ${formatCost(budget)} is used up (${formatCost(spent)} spent today). ` +
+        'Raise deepseekCSharp.assistant.usage.dailyBudget or set usage.budgetAction to "warn".'
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const STORAGE_KEY = 'deepseekCSharp.usage';
+const RETENTION_DAYS = 90;
+
+export class UsageTracker implements vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  list(): UsageEntry[] {
+    return this.state.get<UsageEntry[]>(STORAGE_KEY, []);
+  }
+
+  totals(day = today()): UsageTotals {
+    return sumUsage(this.list().filter((entry) => entry.day === day));
+  }
+
+  // Requests finish concurrently, so writes are queued to avoid losing increments.
+  record(sample: UsageSample, price: ModelPrice | undefined): Promise<void> {
+    this.pending = this.pending.catch(() => undefined).then(async () => {
+      const day = today();
+      const cost = price
+        ? (sample.promptTokens * price.input + sample.completionTokens * price.output) / 1000000
+        : 0;
+      const entries = this.list().filter((entry) => entry.day >= cutoffDay());
+      const existing = entries.find(
+        (entry) =>
+          entry.day === day &&
+          entry.model === sample.model &&
+          entry.workspace === sample.workspace &&
+          entry.command === sample.command
+      );
+      if (existing) {
+        existing.requests += 1;
+        existing.promptTokens += sample.promptTokens;
+        existing.completionTokens += sample.completionTokens;
+        existing.cost += cost;
+        existing.estimated = existing.estimated || sample.estimated;
+      } else {
+        entries.push({ ...sample, day, requests: 1, cost });
+      }
+      await this.state.update(STORAGE_KEY, entries);
+      this.changeEmitter.fire();
+    });
+    return this.pending;
+  }
+
+  async clear(): Promise<void> {
+    await this.state.update(STORAGE_KEY, []);
+    this.changeEmitter.fire();
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+export function priceFor(model: string, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+  const name = model.toLowerCase();
+  const match = Object.entries(prices)
+    .filter(([key]) => name === key.toLowerCase() || name.startsWith(key.toLowerCase()))
+    .sort((a, b) => b[0].length - a[0].length)[0]?.[1];
+  return match && typeof match.input === 'number' && typeof match.output === 'number' ? match : undefined;
+}
+
+export function sumUsage(entries: UsageEntry[]): UsageTotals {
+  return entries.reduce(
+    (totals, entry) => ({
+      requests: totals.requests + entry.requests,
+      promptTokens: totals.promptTokens + entry.promptTokens,
+      completionTokens: totals.completionTokens + entry.completionTokens,
+      cost: totals.cost + entry.cost
+    }),
+    { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+  );
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost >= 1 ? 2 : 4)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens >= 10000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+export function today(): string {
+  return localDay(new Date());
+}
+
+function cutoffDay(): string {
+  const date = new Date();
+  date.setDate(date.getDate() - RETENTION_DAYS);
+  return localDay(date);
+}
+
+function localDay(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
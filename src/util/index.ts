@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+
+export function delay(ms: number, token?: vscode.CancellationToken): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      subscription?.dispose();
+      resolve(!token?.isCancellationRequested);
+    }, ms);
+    const subscription = token?.onCancellationRequested(() => {
+      clearTimeout(timer);
+      subscription?.dispose();
+      resolve(false);
+    });
+  });
+}
+
+export async function withCancellableProgress<T>(
+  title: string,
+  token: vscode.CancellationToken | undefined,
+  task: (token: vscode.CancellationToken) => Promise<T>
+): Promise<T> {
+  return vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+    async (_progress, progressToken) => {
+      const source = new vscode.CancellationTokenSource();
+      const subscriptions = [progressToken, token]
+        .filter((entry): entry is vscode.CancellationToken => !!entry)
+        .map((entry) => entry.onCancellationRequested(() => source.cancel()));
+      if (token?.isCancellationRequested) {
+        source.cancel();
+      }
+      try {
+        return await task(source.token);
+      } finally {
+        subscriptions.forEach((subscription) => subscription.dispose());
+        source.dispose();
+      }
+    }
+  );
+}
@@ -0,0 +1,91 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as vscode from 'vscode';
+
+export interface ShellCommandOptions {
+  token?: vscode.CancellationToken;
+  timeoutMs?: number;
+  label?: string;
+}
+
+export interface ShellCommandResult {
+  exitCode: number | null;
+  output: string;
+}
+
+export class CommandTimeoutError extends Error {
+  constructor(label: string, timeoutMs: number) {
+    super(`${label} timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'CommandTimeoutError';
+  }
+}
+
+export function runShellCommand(
+  command: string,
+  cwd: string,
+  output: vscode.OutputChannel,
+  options: ShellCommandOptions = {}
+): Promise<ShellCommandResult> {
+  if (options.token?.isCancellationRequested) {
+    return Promise.reject(new vscode.CancellationError());
+  }
+
+  return new Promise<ShellCommandResult>((resolve, reject) => {
+    // A separate process group lets us stop the shell together with dotnet and the processes it starts.
+    const child = spawn(command, { cwd, shell: true, detached: process.platform !== 'win32' });
+    const logs: Array<string> = [];
+
+    let stopped: Error | undefined;
+    const stop = (reason: Error) => {
+      if (!stopped) {
+        stopped = reason;
+        killProcessTree(child);
+      }
+    };
+    const timeout = options.timeoutMs
+      ? setTimeout(
+          () => stop(new CommandTimeoutError(options.label ?? 'Command', options.timeoutMs ?? 0)),
+          options.timeoutMs
+        )
+      : undefined;
+    const cancellation = options.token?.onCancellationRequested(() => stop(new vscode.CancellationError()));
+
+    const append = (data: Buffer) => {
+      const text = data.toString();
+      logs.push(text);
+      output.append(text);
+    };
+    child.stdout.on('data', append);
+    child.stderr.on('data', append);
+
+    // When the shell cannot be started, 'error' fires and 'close' may never follow.
+    child.on('error', (err) => {
+      clearTimeout(timeout);
+      cancellation?.dispose();
+      reject(stopped ?? err);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timeout);
+      cancellation?.dispose();
+      if (stopped) {
+        reject(stopped);
+        return;
+      }
+      resolve({ exitCode: code, output: logs.join('') });
+    });
+  });
+}
+
+function killProcessTree(child: ChildProcess): void {
+  if (child.pid === undefined) {
+    return;
+  }
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']).on('error', () => child.kill());
+    return;
+  }
+  try {
+    process.kill(-child.pid, 'SIGTERM');
+  } catch {
+    child.kill('SIGTERM');
+  }
+}